@@ -0,0 +1,83 @@
+import { bench, describe } from 'vitest';
+import { ContextMode, DagEngine, DagNode } from '../src';
+
+type Ctx = Record<string, unknown>;
+
+const deps = { logger: { info() {}, warn() {}, error() {} } };
+const modes: ContextMode[] = ['clone', 'frozen'];
+
+function payload(bytes: number) {
+  const rows = Math.ceil(bytes / 64);
+  return Array.from({ length: rows }, (_, i) => ({ id: i, name: `row-${i}`, tags: ['a', 'b'] }));
+}
+
+function scenario(
+  name: string,
+  nodes: () => DagNode<Ctx>[],
+  initial: () => Ctx,
+  options?: Parameters<typeof bench>[2]
+) {
+  describe(name, () => {
+    for (const contextMode of modes) {
+      const engine = new DagEngine<Ctx>(deps, undefined, { contextMode });
+      nodes().forEach((node) => engine.addNode(node));
+      const ctx = initial();
+      bench(contextMode, async () => {
+        await engine.execute(ctx);
+      }, options);
+    }
+  });
+}
+
+// Mirrors the shapes exercised in tests/index.test.ts.
+scenario(
+  'single node',
+  () => [{ id: 'node1', execute: async () => ({ value: 10 }) }],
+  () => ({ value: 0 })
+);
+
+scenario(
+  'parallel independent nodes',
+  () => [
+    { id: 'node1', execute: async () => ({ a: 1 }) },
+    { id: 'node2', execute: async () => ({ b: 2 }) },
+  ],
+  () => ({ a: 0, b: 0 })
+);
+
+scenario(
+  'dependency chain',
+  () => [
+    { id: 'node1', execute: async () => ({ value: 1 }) },
+    { id: 'node2', dependsOn: ['node1'], execute: async () => ({ value: 2 }) },
+    { id: 'node3', dependsOn: ['node2'], execute: async () => ({ value: 3 }) },
+  ],
+  () => ({ value: 0 })
+);
+
+scenario(
+  'multiple dependencies with nested context',
+  () => [
+    { id: 'node1', execute: async () => ({ a: 1 }) },
+    { id: 'node2', execute: async () => ({ b: 2 }) },
+    {
+      id: 'node3',
+      dependsOn: ['node1', 'node2'],
+      execute: async () => ({ user: { name: 'Jane', age: 30 } }),
+    },
+  ],
+  () => ({ a: 0, b: 0, user: { name: 'John', age: 30 }, settings: { theme: 'dark' } })
+);
+
+scenario(
+  '200 nodes over a 2MB context',
+  () =>
+    Array.from({ length: 200 }, (_, i) => ({
+      id: `node${i}`,
+      dependsOn: i % 10 === 0 ? [] : [`node${i - 1}`],
+      execute: async () => ({ [`result${i}`]: i }),
+    })),
+  () => ({ payload: payload(2_000_000) }),
+  // A single clone-mode run takes tens of seconds here.
+  { time: 0, iterations: 2, warmupTime: 0, warmupIterations: 0 }
+);
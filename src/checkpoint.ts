@@ -0,0 +1,75 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { deserialize, serialize } from "node:v8";
+import type { DagMetrics } from "./index";
+
+export interface DagCheckpoint<T> {
+  runId: string;
+  context: T;
+  completed: string[];
+  failed: string[];
+  blocked: string[];
+  notTaken?: string[];
+  gated?: string[];
+  branches?: Record<string, string[]>;
+  patches?: Record<string, Partial<T>>;
+  outputs?: Record<string, unknown>;
+  metrics: DagMetrics;
+}
+
+export interface CheckpointStore {
+  save<T>(checkpoint: DagCheckpoint<T>): Promise<void>;
+  load<T>(runId: string): Promise<DagCheckpoint<T> | undefined>;
+  delete(runId: string): Promise<void>;
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, DagCheckpoint<unknown>>();
+
+  async save<T>(checkpoint: DagCheckpoint<T>): Promise<void> {
+    this.checkpoints.set(checkpoint.runId, structuredClone(checkpoint));
+  }
+
+  async load<T>(runId: string): Promise<DagCheckpoint<T> | undefined> {
+    const checkpoint = this.checkpoints.get(runId);
+    return checkpoint && (structuredClone(checkpoint) as DagCheckpoint<T>);
+  }
+
+  async delete(runId: string): Promise<void> {
+    this.checkpoints.delete(runId);
+  }
+}
+
+// Checkpoints are written with v8 serialization, which follows the same
+// structured clone rules as the engine's context handling, so anything that
+// survives a merge also survives a restart.
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private readonly dir: string) {}
+
+  async save<T>(checkpoint: DagCheckpoint<T>): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(checkpoint.runId);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, serialize(checkpoint));
+    await rename(tmp, file);
+  }
+
+  async load<T>(runId: string): Promise<DagCheckpoint<T> | undefined> {
+    try {
+      return deserialize(await readFile(this.fileFor(runId))) as DagCheckpoint<T>;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async delete(runId: string): Promise<void> {
+    await rm(this.fileFor(runId), { force: true });
+  }
+
+  private fileFor(runId: string) {
+    return join(this.dir, `${encodeURIComponent(runId)}.ckpt`);
+  }
+}
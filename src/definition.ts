@@ -0,0 +1,322 @@
+import { readFile } from "node:fs/promises";
+import {
+  isMap,
+  isScalar,
+  isSeq,
+  LineCounter,
+  parseDocument,
+  type Node as YamlNode,
+  type YAMLMap,
+} from "yaml";
+import type { DagEngine, DagNode, DagNodeConfig } from "./index";
+
+export interface DagNodeHandler<T> {
+  execute: DagNode<T>["execute"];
+  shouldRun?: DagNode<T>["shouldRun"];
+  validate?: DagNode<T>["validate"];
+  cleanup?: DagNode<T>["cleanup"];
+  compensate?: DagNode<T>["compensate"];
+  branch?: DagNode<T>["branch"];
+}
+
+export type DagHandlerRegistry<T> = Record<string, DagNodeHandler<T>>;
+
+export interface DagNodeDefinition {
+  id: string;
+  handler: string;
+  dependsOn?: string[];
+  reads?: string[];
+  writes?: string[];
+  fallback?: string;
+  config?: DagNodeConfig;
+}
+
+export interface DagDefinition {
+  nodes: DagNodeDefinition[];
+}
+
+export interface DagDefinitionIssue {
+  path: string;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export class DagDefinitionError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: DagDefinitionIssue[]
+  ) {
+    super(
+      [
+        `Invalid DAG definition ${source}:`,
+        ...issues.map(i => `  ${source}:${i.line}:${i.column} ${i.path}: ${i.message}`),
+      ].join("\n")
+    );
+    this.name = "DagDefinitionError";
+  }
+}
+
+type FieldCheck = (node: YamlNode, path: string, reader: DefinitionReader) => unknown;
+
+const nonNegativeNumber: FieldCheck = (node, path, reader) => {
+  const value = reader.scalar(node, path);
+  if (typeof value !== "number" || !(value >= 0)) {
+    return reader.fail(node, path, "expected a non-negative number");
+  }
+  return value;
+};
+
+const nonNegativeInteger: FieldCheck = (node, path, reader) => {
+  const value = reader.scalar(node, path);
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    return reader.fail(node, path, "expected a non-negative integer");
+  }
+  return value;
+};
+
+const positiveInteger: FieldCheck = (node, path, reader) => {
+  const value = reader.scalar(node, path);
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    return reader.fail(node, path, "expected a positive integer");
+  }
+  return value;
+};
+
+const oneOf = (...allowed: string[]): FieldCheck => (node, path, reader) => {
+  const value = reader.scalar(node, path);
+  if (typeof value !== "string" || !allowed.includes(value)) {
+    return reader.fail(node, path, `expected one of ${allowed.map(a => `"${a}"`).join(", ")}`);
+  }
+  return value;
+};
+
+const nonEmptyString: FieldCheck = (node, path, reader) => {
+  const value = reader.scalar(node, path);
+  if (typeof value !== "string" || value === "") {
+    return reader.fail(node, path, "expected a non-empty string");
+  }
+  return value;
+};
+
+const stringList: FieldCheck = (node, path, reader) => {
+  if (!isSeq(node)) {
+    return reader.fail(node, path, "expected a list of strings");
+  }
+  return node.items.map((item, i) => nonEmptyString(item as YamlNode, `${path}[${i}]`, reader));
+};
+
+const configFields: Record<keyof DagNodeConfig, FieldCheck> = {
+  timeoutMs: nonNegativeNumber,
+  maxRetries: nonNegativeInteger,
+  retryDelayMs: nonNegativeNumber,
+  onError: oneOf("fail", "skip", "skip-dependents"),
+  concurrencyTags: stringList,
+  retry: (node, path, reader) =>
+    reader.object(node, path, {
+      jitter: oneOf("none", "full", "equal", "decorrelated"),
+      maxDelayMs: nonNegativeNumber,
+    }),
+  circuitBreaker: nonEmptyString,
+  onCircuitOpen: oneOf("fail", "skip", "skip-dependents"),
+  trigger: oneOf("all-success", "all-done", "any-success", "first-n", "none-failed"),
+  triggerCount: positiveInteger,
+  hookTimeouts: (node, path, reader) =>
+    reader.object(node, path, {
+      shouldRun: nonNegativeNumber,
+      validate: nonNegativeNumber,
+      cleanup: nonNegativeNumber,
+    }),
+};
+
+const nodeFields: Record<keyof DagNodeDefinition, FieldCheck> = {
+  id: nonEmptyString,
+  handler: nonEmptyString,
+  dependsOn: stringList,
+  reads: stringList,
+  writes: stringList,
+  fallback: nonEmptyString,
+  config: (node, path, reader) => reader.object(node, path, configFields),
+};
+
+class DefinitionReader {
+  readonly issues: DagDefinitionIssue[] = [];
+  private locations = new Map<string, { line: number; column: number }>();
+
+  constructor(private readonly lineCounter: LineCounter) {}
+
+  scalar(node: YamlNode, path: string): unknown {
+    this.record(node, path);
+    return isScalar(node) ? node.value : undefined;
+  }
+
+  object(
+    node: YamlNode,
+    path: string,
+    fields: Record<string, FieldCheck>,
+    required: string[] = []
+  ): Record<string, unknown> | undefined {
+    this.record(node, path);
+    if (!isMap(node)) {
+      return this.fail(node, path, "expected a mapping");
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const pair of (node as YAMLMap<YamlNode, YamlNode>).items) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+      const fieldPath = path ? `${path}.${key}` : key;
+      const check = fields[key];
+      if (!check) {
+        this.fail(pair.key, fieldPath, "unknown field");
+        continue;
+      }
+      if (!pair.value) {
+        this.fail(pair.key, fieldPath, "missing value");
+        continue;
+      }
+      result[key] = check(pair.value, fieldPath, this);
+    }
+
+    for (const key of required) {
+      if (!(key in result)) {
+        this.fail(node, path ? `${path}.${key}` : key, "required field is missing");
+      }
+    }
+    return result;
+  }
+
+  fail(node: YamlNode | unknown, path: string, message: string): undefined {
+    this.record(node, path);
+    this.issues.push({ path, message, ...this.locate(path) });
+    return undefined;
+  }
+
+  locate(path: string) {
+    return this.locations.get(path) ?? { line: 1, column: 1 };
+  }
+
+  private record(node: YamlNode | unknown, path: string) {
+    const range = (node as YamlNode | null)?.range;
+    if (range && !this.locations.has(path)) {
+      const { line, col } = this.lineCounter.linePos(range[0]);
+      this.locations.set(path, { line, column: col });
+    }
+  }
+}
+
+function readDefinition(text: string, source: string) {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter });
+  const reader = new DefinitionReader(lineCounter);
+
+  if (doc.errors.length) {
+    throw new DagDefinitionError(
+      source,
+      doc.errors.map(err => ({
+        path: "",
+        message: err.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, ""),
+        line: err.linePos?.[0].line ?? 1,
+        column: err.linePos?.[0].col ?? 1,
+      }))
+    );
+  }
+
+  const root = reader.object(doc.contents as YamlNode, "", {
+    nodes: (node, path) => {
+      if (!isSeq(node)) {
+        return reader.fail(node, path, "expected a list of nodes");
+      }
+      return node.items.map((item, i) => {
+        const definition = reader.object(item as YamlNode, `${path}[${i}]`, nodeFields, ["id", "handler"]);
+        const config = definition?.config as DagNodeConfig | undefined;
+        if (config?.trigger === "first-n" && !("triggerCount" in config)) {
+          reader.fail(undefined, `${path}[${i}].config.trigger`, 'trigger "first-n" requires triggerCount');
+        }
+        return definition;
+      });
+    },
+  }, ["nodes"]);
+
+  return {
+    definition: { nodes: (root?.nodes ?? []) as DagNodeDefinition[] },
+    reader,
+  };
+}
+
+function throwIfInvalid(reader: DefinitionReader, source: string) {
+  if (reader.issues.length) {
+    throw new DagDefinitionError(source, reader.issues);
+  }
+}
+
+// Parses and schema-checks a JSON or YAML document (JSON is parsed as YAML,
+// which keeps line/column information for both formats).
+export function parseDagDefinition(text: string, source = "<inline>"): DagDefinition {
+  const { definition, reader } = readDefinition(text, source);
+  throwIfInvalid(reader, source);
+  return definition;
+}
+
+// Adds the nodes of a definition to `engine`, resolving each handler name
+// against `registry`. Unknown handlers, duplicate ids, dangling dependencies
+// and unknown circuit breakers are reported with their location in the
+// document before any node is added, so a bad document leaves the engine
+// untouched.
+export function loadDagDefinition<T>(
+  engine: DagEngine<T>,
+  text: string,
+  registry: DagHandlerRegistry<T>,
+  source = "<inline>"
+): DagEngine<T> {
+  const { definition, reader } = readDefinition(text, source);
+  throwIfInvalid(reader, source);
+
+  const ids = new Set<string>();
+  const existing = new Set(engine.getNodes().map(n => n.id));
+  definition.nodes.forEach((node, i) => {
+    if (ids.has(node.id) || existing.has(node.id)) {
+      reader.fail(undefined, `nodes[${i}].id`, `duplicate node id "${node.id}"`);
+    }
+    ids.add(node.id);
+    if (!Object.hasOwn(registry, node.handler)) {
+      reader.fail(undefined, `nodes[${i}].handler`, `unknown handler "${node.handler}"`);
+    }
+    const breaker = node.config?.circuitBreaker;
+    if (breaker !== undefined && engine.circuitState(breaker) === undefined) {
+      reader.fail(undefined, `nodes[${i}].config.circuitBreaker`, `unknown circuit breaker "${breaker}"`);
+    }
+  });
+  definition.nodes.forEach((node, i) => {
+    node.dependsOn?.forEach((dep, j) => {
+      if (!ids.has(dep) && !existing.has(dep)) {
+        reader.fail(undefined, `nodes[${i}].dependsOn[${j}]`, `depends on missing node "${dep}"`);
+      }
+    });
+    if (node.fallback !== undefined && !ids.has(node.fallback) && !existing.has(node.fallback)) {
+      reader.fail(undefined, `nodes[${i}].fallback`, `falls back to missing node "${node.fallback}"`);
+    }
+  });
+  throwIfInvalid(reader, source);
+
+  for (const { handler, ...node } of definition.nodes) {
+    const { execute, shouldRun, validate, cleanup, compensate, branch } = registry[handler];
+    engine.addNode({
+      ...node,
+      execute,
+      shouldRun,
+      validate,
+      cleanup,
+      compensate,
+      branch,
+    });
+  }
+  return engine;
+}
+
+export async function loadDagDefinitionFile<T>(
+  engine: DagEngine<T>,
+  path: string,
+  registry: DagHandlerRegistry<T>
+): Promise<DagEngine<T>> {
+  return loadDagDefinition(engine, await readFile(path, "utf8"), registry, path);
+}
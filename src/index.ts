@@ -1,3 +1,16 @@
+import { randomUUID } from "node:crypto";
+import { setMaxListeners } from "node:events";
+import type { CheckpointStore, DagCheckpoint } from "./checkpoint";
+import { readonlyView, unwrapViews } from "./strict";
+
+export * from "./checkpoint";
+export * from "./definition";
+export * from "./loop";
+export * from "./map";
+export * from "./subdag";
+export * from "./visualize";
+export { DagMutationError } from "./strict";
+
 export interface Logger {
   info(msg: string, meta?: any): void;
   warn(msg: string, meta?: any): void;
@@ -10,19 +23,152 @@ export type DagNodeStatus =
   | "success"
   | "failed"
   | "skipped"
-  | "blocked";
+  | "blocked"
+  | "cancelled"
+  | "not-taken";
 
 export interface DagNodeConfig {
   timeoutMs?: number;
   maxRetries?: number;
   retryDelayMs?: number;
   onError?: ErrorStrategy;
+  concurrencyTags?: string[];
+  retry?: RetryPolicy;
+  // Name of one of the engine's circuitBreakers guarding this node.
+  circuitBreaker?: string;
+  // Strategy for failures caused by an open circuit (default: onError).
+  onCircuitOpen?: ErrorStrategy;
+  trigger?: TriggerRule;
+  // Number of successful dependencies the "first-n" rule waits for.
+  triggerCount?: number;
+  hookTimeouts?: DagHookTimeouts;
+}
+
+export type DagHookName = "shouldRun" | "validate" | "cleanup";
+
+// Time limits for the node's hooks, in milliseconds; timeoutMs only covers
+// execute.
+export type DagHookTimeouts = { [H in DagHookName]?: number };
+
+export type RetryJitter = "none" | "full" | "equal" | "decorrelated";
+
+// Shapes the delays between the attempts allowed by maxRetries. The base
+// delay for retry n is retryDelayMs * 2 ** (n - 1).
+export interface RetryPolicy {
+  jitter?: RetryJitter;
+  maxDelayMs?: number;
+  // Returning false fails the node without further attempts.
+  shouldRetry?(err: unknown, attempt: number): boolean;
+  // Overrides the computed delay, e.g. from a Retry-After header carried by
+  // the error. Returning undefined keeps the computed delay.
+  delayFor?(err: unknown, attempt: number): number | undefined;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit.
+  failureThreshold: number;
+  // How long the circuit stays open before a single trial call is let through.
+  resetTimeoutMs: number;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface DagCircuitTransition {
+  breaker: string;
+  from: CircuitState;
+  to: CircuitState;
+  nodeId: string;
+  at: number;
+}
+
+export type TriggerRule =
+  | "all-success"
+  | "all-done"
+  | "any-success"
+  | "first-n"
+  | "none-failed";
+
+export type CompensationPolicy = "continue" | "stop";
+
+export interface DagCompensationMetrics {
+  status: "success" | "failed" | "skipped";
+  durationMs: number;
+  error?: string;
+}
+
+export interface DagMapItemMetrics {
+  index: number;
+  status: "success" | "failed" | "cancelled";
+  durationMs: number;
+  error?: string;
+}
+
+export interface DagAttemptError {
+  attempt: number;
+  error: string;
+  // Delay before the next attempt; absent when the node was not retried.
+  delayMs?: number;
+}
+
+export interface DagHookError {
+  hook: DagHookName;
+  error: string;
+  timedOut?: boolean;
+}
+
+export interface DagFallbackMetrics {
+  status: "success" | "failed";
+  durationMs: number;
+  // Set when the fallback was another node, whose own metrics entry holds
+  // the details of its run.
+  node?: string;
+  error?: string;
 }
 
 export interface DagNodeMetrics {
   attempts: number;
   status: DagNodeStatus;
   durationMs: number;
+  waitMs?: number;
+  error?: string;
+  attemptErrors?: DagAttemptError[];
+  // Set when the node was failed fast by this open circuit breaker.
+  circuitOpen?: string;
+  // Set when shouldRun or validate failed the node, or cleanup failed.
+  hookError?: DagHookError;
+  fallback?: DagFallbackMetrics;
+  // Id of the error boundary that caught this node's failure.
+  caughtBy?: string;
+  // Set on a boundary's recovery node.
+  recovered?: { boundary: string; failedNodes: string[] };
+  child?: DagMetrics;
+  items?: DagMapItemMetrics[];
+  iterations?: DagLoopIterationMetrics[];
+  compensation?: DagCompensationMetrics;
+}
+
+export type DagNodeAnnotations = Omit<
+  DagNodeMetrics,
+  | "attempts"
+  | "status"
+  | "durationMs"
+  | "waitMs"
+  | "error"
+  | "attemptErrors"
+  | "circuitOpen"
+  | "hookError"
+  | "fallback"
+  | "caughtBy"
+  | "recovered"
+  | "compensation"
+>;
+
+// Annotations the loop body added during the iteration (e.g. `child`) are
+// kept alongside its outcome.
+export interface DagLoopIterationMetrics extends DagNodeAnnotations {
+  iteration: number;
+  status: "success" | "failed" | "cancelled";
+  durationMs: number;
   error?: string;
 }
 
@@ -34,35 +180,145 @@ export interface DagMetrics {
   failedNodes: number;
   skippedNodes: number;
   blockedNodes: number;
+  cancelledNodes: number;
+  notTakenNodes: number;
   nodes: Record<string, DagNodeMetrics>;
+  conflicts?: DagConflict[];
+  circuitTransitions?: DagCircuitTransition[];
 }
 
-export interface DagResult<T> {
+export type MergeStrategy<V> =
+  | "error"
+  | "last-wins"
+  | "deep-merge"
+  | ((current: V, incoming: V) => V);
+
+export type ContextReducer<V> = "deep-merge" | ((prev: V, next: V) => V);
+
+export type ContextMode = "clone" | "frozen";
+
+export type WriteConflictPolicy = "allow" | "reject" | "serialize";
+
+export interface DagConflict {
+  key: string;
+  nodeId: string;
+  conflictsWith: string;
+  resolution: "error" | "last-wins" | "deep-merge" | "custom";
+}
+
+export interface DagResult<T, O = Record<string, unknown>> {
+  runId: string;
   success: boolean;
   context: T;
+  // Outputs of the nodes that completed, keyed by node id.
+  outputs: Partial<O>;
   metrics: DagMetrics;
   error?: Error;
+  // Every failure of this execution, in the order they happened, including
+  // nodes handled by "skip" or "skip-dependents" and successful runs.
+  errors: DagExecutionError[];
+}
+
+
+export interface DagNodeEvent<T> {
+  nodeId: string;
+  attempt: number;
+  error?: unknown;
+  patch?: Partial<T>;
+  output?: unknown;
+}
+
+export interface DagEvents<T> {
+  runStart: { runId: string; startedAt: number; totalNodes: number };
+  runEnd: DagResult<T>;
+  nodeStart: DagNodeEvent<T>;
+  nodeRetry: DagNodeEvent<T>;
+  nodeSuccess: DagNodeEvent<T>;
+  nodeFailed: DagNodeEvent<T>;
+  nodeSkipped: DagNodeEvent<T>;
+  nodeBlocked: DagNodeEvent<T>;
+  nodeCancelled: DagNodeEvent<T>;
+  nodeNotTaken: DagNodeEvent<T>;
 }
 
+export type DagEventName = keyof DagEvents<unknown>;
+
+// The return value is ignored, apart from a rejected promise being logged
+// like a thrown error.
+export type DagEventHandler<T, E extends DagEventName> = (
+  payload: DagEvents<T>[E]
+) => unknown;
+
+export interface DagExecuteOptions {
+  runId?: string;
+  signal?: AbortSignal;
+  deadlineMs?: number;
+}
 
 export interface DagNodeDeps {
   logger: Logger;
 }
 
-export interface DagNode<T, Patch = Partial<T>> {
+// What execute receives: the engine's deps plus the outputs of the node's
+// completed dependencies, keyed by dependency id.
+export interface DagNodeRunDeps<O = Record<string, unknown>> extends DagNodeDeps {
+  outputs: Partial<O>;
+}
+
+// Returned from execute to hand a typed value to dependent nodes without
+// putting it in the shared context. The optional patch is merged as usual.
+export class DagNodeOutput<Out, Patch = {}> {
+  constructor(
+    readonly value: Out,
+    readonly patch?: Patch
+  ) {}
+}
+
+export function output<Out, Patch = {}>(value: Out, patch?: Patch): DagNodeOutput<Out, Patch> {
+  return new DagNodeOutput(value, patch);
+}
+
+export interface DagNodeRun {
+  runId: string;
+  nodeId: string;
+  attempt: number;
+  // Adds extra fields (e.g. nested child metrics) to this node's metrics entry,
+  // also when called after the node timed out or was cancelled.
+  annotate(fields: DagNodeAnnotations): void;
+}
+
+export interface DagNode<
+  T,
+  Patch = Partial<T>,
+  Out = unknown,
+  O = Record<string, unknown>,
+> {
   id: string;
   dependsOn?: string[];
   config?: DagNodeConfig;
+  // Context keys, as plain strings so that a DagNode<T> stays assignable to
+  // a DagNode<unknown>.
+  reads?: string[];
+  writes?: string[];
 
-  shouldRun?(ctx: T): boolean | Promise<boolean>;
+  shouldRun?(ctx: T, signal: AbortSignal): boolean | Promise<boolean>;
   execute(
     ctx: Readonly<T>,
-    deps: DagNodeDeps,
-    signal: AbortSignal
-  ): Promise<Patch>;
+    deps: DagNodeRunDeps<O>,
+    signal: AbortSignal,
+    run: DagNodeRun
+  ): Promise<Patch | DagNodeOutput<Out, Patch>>;
 
-  validate?(ctx: T): boolean | Promise<boolean>;
-  cleanup?(ctx: T): void | Promise<void>;
+  validate?(ctx: T, signal: AbortSignal): boolean | Promise<boolean>;
+  cleanup?(ctx: T, signal: AbortSignal): void | Promise<void>;
+  compensate?(ctx: T, patch: Patch): void | Promise<void>;
+  // Runs once the primary execute has exhausted its retries (or failed fast
+  // on an open circuit); its result is used in place of the primary's. A
+  // string names a standby node, which is then only run as a fallback.
+  fallback?: string | DagNode<T, Patch, Out, O>["execute"];
+  // Makes this a branch node: called after a successful execute with the
+  // patch it returned, and returns the ids of the dependents to activate.
+  branch?(ctx: Readonly<T>, patch: Patch): string | string[] | Promise<string | string[]>;
 }
 class SkipSuccessors extends Error {
   constructor(public readonly nodeId: string) {
@@ -70,247 +326,1700 @@ class SkipSuccessors extends Error {
   }
 }
 
+// Base class of the errors the engine reports in DagResult.errors. `nodeId`
+// and `attempt` are set when the failure belongs to a node attempt.
+export class DagExecutionError extends Error {
+  constructor(
+    message: string,
+    public readonly nodeId?: string,
+    public readonly attempt?: number,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "DagExecutionError";
+  }
+}
+
+// A node that failed after its retries (and fallback); `cause` is the error
+// of its last attempt.
+export class DagNodeFailedError extends DagExecutionError {
+  declare readonly nodeId: string;
+  declare readonly attempt: number;
+
+  constructor(nodeId: string, attempt: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Node ${nodeId} failed after ${attempt} attempt${attempt === 1 ? "" : "s"}: ${reason}`, nodeId, attempt, { cause });
+    this.name = "DagNodeFailedError";
+  }
+}
+
+export class DagNodeTimeoutError extends DagExecutionError {
+  declare readonly nodeId: string;
+  declare readonly attempt: number;
+
+  constructor(
+    nodeId: string,
+    attempt: number,
+    public readonly timeoutMs: number,
+    message = `${nodeId} timed out`
+  ) {
+    super(message, nodeId, attempt);
+    this.name = "DagNodeTimeoutError";
+  }
+}
+
+export class DagHookTimeoutError extends DagNodeTimeoutError {
+  constructor(
+    nodeId: string,
+    public readonly hook: DagHookName,
+    attempt: number,
+    timeoutMs: number
+  ) {
+    super(nodeId, attempt, timeoutMs, `${nodeId} ${hook} hook timed out`);
+    this.name = "DagHookTimeoutError";
+  }
+}
+
+export class DagCycleError extends DagExecutionError {
+  constructor(public readonly nodes: string[]) {
+    super(`Cycle detected: ${nodes.join(" -> ")}`);
+    this.name = "DagCycleError";
+  }
+}
+
+export class DagConflictError extends DagExecutionError {
+  declare readonly nodeId: string;
+
+  constructor(
+    public readonly key: string,
+    nodeId: string,
+    public readonly conflictsWith: string
+  ) {
+    super(`Nodes ${conflictsWith} and ${nodeId} both wrote "${key}" concurrently`, nodeId);
+    this.name = "DagConflictError";
+  }
+}
+
+export class DagCircuitOpenError extends DagExecutionError {
+  declare readonly nodeId: string;
+
+  constructor(
+    public readonly breaker: string,
+    nodeId: string
+  ) {
+    super(`Circuit breaker ${breaker} is open; node ${nodeId} was not run`, nodeId);
+    this.name = "DagCircuitOpenError";
+  }
+}
+
+export class DagCancelledError extends DagExecutionError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, undefined, undefined, options);
+    this.name = "DagCancelledError";
+  }
+}
+
 export interface DagPlan {
   order: string[];          
   batches: string[][];      
 }
 
-export class DagEngine<T> {
+// A failure of any node in `nodes` is caught instead of failing the run (a
+// "fail" strategy acts like "skip-dependents"), and `recovery` runs once all
+// of them have settled. Without a failure the recovery node is not taken.
+export interface DagErrorBoundary {
+  id: string;
+  nodes: string[];
+  recovery: string;
+}
+
+// Restricts dependsOn to the ids added so far. Nodes whose dependsOn is
+// only known as string[] (e.g. built by a helper called with explicit type
+// arguments) are left to the plan-time check, and a node whose id is only
+// known as a string lifts the restriction for the nodes added after it.
+export type KnownDeps<O, Dep extends string> = string extends Dep
+  ? unknown
+  : { dependsOn?: (keyof O & string)[] };
+
+export type SchedulerMode = "batch" | "ready-queue";
+
+export interface DagEngineOptions<T = unknown> {
+  scheduler?: SchedulerMode;
+  maxConcurrency?: number;
+  concurrency?: Record<string, number>;
+  failFast?: boolean;
+  cleanupGraceMs?: number;
+  checkpointStore?: CheckpointStore;
+  compensationPolicy?: CompensationPolicy;
+  writeConflicts?: WriteConflictPolicy;
+  onConflict?: MergeStrategy<unknown>;
+  conflictStrategies?: { [K in keyof T]?: MergeStrategy<T[K]> };
+  reducers?: { [K in keyof T]?: ContextReducer<T[K]> };
+  contextMode?: ContextMode;
+  strictContext?: boolean;
+  circuitBreakers?: Record<string, CircuitBreakerOptions>;
+}
+
+type NodeOutcome<T> = {
+  patch: Partial<T>;
+  output?: { value: unknown };
+  taken?: string[];
+};
+
+type NodeResult<T> =
+  | ({ node: DagNode<T> } & NodeOutcome<T>)
+  | { node: DagNode<T>; err: unknown };
+
+type RunSeed<T> = Omit<DagCheckpoint<T>, "runId" | "metrics"> & {
+  metrics?: DagMetrics;
+};
+
+interface RunState<T> {
+  runId: string;
+  ctx: T;
+  metrics: DagMetrics;
+  nodes: DagNode<T>[];
+  completed: Set<string>;
+  failed: Set<string>;
+  blocked: Set<string>;
+  notTaken: Set<string>;
+  // Completed nodes whose shouldRun returned false.
+  gated: Set<string>;
+  // Nodes that have been handed to settleNode in this process.
+  started: Set<string>;
+  // Fallback-only nodes; they are never scheduled on their own.
+  standby: Set<string>;
+  // Dependents each completed branch node selected.
+  branches: Map<string, string[]>;
+  patches: Map<string, Partial<T>>;
+  outputs: Map<string, unknown>;
+  // Every merge bumps the version; a key written at a version newer than the
+  // one a node started from was changed concurrently with that node.
+  version: number;
+  writes: Map<string, { version: number; nodeId: string }>;
+  snapshots: Map<string, number>;
+  signal: AbortSignal;
+  abort(reason: unknown): void;
+  failure?: { nodeId: string; err: unknown };
+  errors: DagExecutionError[];
+  saving: Promise<void>;
+}
+
+// `O` maps node ids to their output types. It is widened by every addNode
+// call, so a chained builder knows the ids and outputs of all nodes added so
+// far. Engines made with createDag start from no ids, which turns a dependsOn
+// entry naming a node not yet added into a type error.
+export class DagEngine<T, O = Record<string, unknown>> {
   private nodes = new Map<string, DagNode<T>>();
   private nodesArray: DagNode<T>[] = [];
   private executionPlan: DagPlan | null = null;
+  private orderingDeps = new Map<string, string[]>();
   private planner: (node: DagNode<T>[]) => DagPlan;
+  private globalLimit: Semaphore | null = null;
+  private tagLimits = new Map<string, Semaphore>();
+  // Breakers live as long as the engine, so their state carries across runs.
+  private breakers = new Map<string, CircuitBreaker>();
+  private boundaries = new Map<string, DagErrorBoundary>();
+  private boundaryOf = new Map<string, DagErrorBoundary>();
+  private recoveryOf = new Map<string, DagErrorBoundary>();
+  private listeners = new Map<DagEventName, Set<DagEventHandler<T, any>>>();
 
-  constructor(private deps: DagNodeDeps, planner?: (node: DagNode<T>[]) => DagPlan) {
+  constructor(
+    private deps: DagNodeDeps,
+    planner?: (node: DagNode<T>[]) => DagPlan,
+    private options: DagEngineOptions<T> = {}
+  ) {
     this.planner = planner ?? defaultPlanner;
+
+    if (options.maxConcurrency !== undefined) {
+      this.globalLimit = new Semaphore("maxConcurrency", options.maxConcurrency);
+    }
+    for (const [tag, limit] of Object.entries(options.concurrency ?? {})) {
+      this.tagLimits.set(tag, new Semaphore(`concurrency.${tag}`, limit));
+    }
+    for (const [name, breaker] of Object.entries(options.circuitBreakers ?? {})) {
+      this.breakers.set(name, new CircuitBreaker(name, breaker));
+    }
   }
 
-  addNode(node: DagNode<T>): this {
+  addNode<Id extends string, Out = undefined, Dep extends string = never>(
+    node: DagNode<T, Partial<T>, Out, O> & { id: Id; dependsOn?: Dep[] } & KnownDeps<O, Dep>
+  ): DagEngine<T, string extends Id ? O & Record<string, unknown> : O & { [K in Id]: Out }> {
     if (this.nodes.has(node.id)) {
       throw new Error(`Duplicate node id: ${node.id}`);
     }
-    this.nodes.set(node.id, node);
-    this.nodesArray.push(node);
+    const { trigger, triggerCount, circuitBreaker } = node.config ?? {};
+    if (circuitBreaker !== undefined && !this.breakers.has(circuitBreaker)) {
+      throw new Error(`Node ${node.id}: unknown circuit breaker "${circuitBreaker}"`);
+    }
+    if (trigger === "first-n" && !(Number.isInteger(triggerCount) && triggerCount! >= 1)) {
+      throw new Error(`Node ${node.id}: trigger "first-n" requires a positive integer triggerCount`);
+    }
+    this.nodes.set(node.id, node as DagNode<T>);
+    this.nodesArray.push(node as DagNode<T>);
+    this.executionPlan = null;
+    return this as DagEngine<T, O & { [K in Id]: Out }>;
+  }
+
+  addBoundary(boundary: DagErrorBoundary): this {
+    if (this.boundaries.has(boundary.id)) {
+      throw new Error(`Duplicate boundary id: ${boundary.id}`);
+    }
+    for (const id of boundary.nodes) {
+      const other = this.boundaryOf.get(id);
+      if (other) {
+        throw new Error(`Node ${id} is already in boundary ${other.id}`);
+      }
+    }
+    if (this.recoveryOf.has(boundary.recovery)) {
+      throw new Error(`Node ${boundary.recovery} already recovers boundary ${this.recoveryOf.get(boundary.recovery)!.id}`);
+    }
+    if (boundary.nodes.includes(boundary.recovery)) {
+      throw new Error(`Boundary ${boundary.id} cannot contain its recovery node ${boundary.recovery}`);
+    }
+
+    this.boundaries.set(boundary.id, boundary);
+    for (const id of boundary.nodes) {
+      this.boundaryOf.set(id, boundary);
+    }
+    this.recoveryOf.set(boundary.recovery, boundary);
     this.executionPlan = null;
     return this;
   }
 
+  on<E extends DagEventName>(event: E, handler: DagEventHandler<T, E>): this {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
+    }
+    handlers.add(handler);
+    return this;
+  }
+
+  off<E extends DagEventName>(event: E, handler: DagEventHandler<T, E>): this {
+    this.listeners.get(event)?.delete(handler);
+    return this;
+  }
+
+  getNodes(): readonly DagNode<T>[] {
+    return this.nodesArray;
+  }
+
+  circuitState(name: string): CircuitState | undefined {
+    return this.breakers.get(name)?.current();
+  }
+
   plan(): DagPlan {
     if (this.executionPlan) {
       return this.executionPlan;
     }
-    this.executionPlan = this.planner(this.nodesArray);
-    return this.executionPlan;
+    this.checkFallbacksAndBoundaries();
+    let plan = this.planner(this.nodesArray);
+    this.orderingDeps = new Map();
+
+    const policy = this.options.writeConflicts ?? "allow";
+    const conflicts = policy === "allow" ? [] : findWriteConflicts(this.nodesArray, plan.order);
+    if (conflicts.length && policy === "reject") {
+      const { key, first, second } = conflicts[0];
+      throw new Error(`Nodes ${first} and ${second} may run in parallel but both access "${key}"`);
+    }
+    // Ordering-only edges: they keep the nodes apart in time but, unlike
+    // dependsOn, a failed or gated predecessor does not block the node.
+    for (const { first, second } of conflicts) {
+      this.orderingDeps.set(second, [...(this.orderingDeps.get(second) ?? []), first]);
+    }
+    for (const { nodes, recovery } of this.boundaries.values()) {
+      this.orderingDeps.set(recovery, [...(this.orderingDeps.get(recovery) ?? []), ...nodes]);
+    }
+    if (this.orderingDeps.size) {
+      plan = this.planner(
+        this.nodesArray.map(n => {
+          const after = this.orderingDeps.get(n.id);
+          return after ? { ...n, dependsOn: [...(n.dependsOn ?? []), ...after] } : n;
+        })
+      );
+    }
+
+    this.executionPlan = plan;
+    return plan;
   }
 
-  async execute(initial: T): Promise<DagResult<T>> {
-    const startedAt = Date.now();
-    let ctx = structuredClone(initial);
-
-    const metrics: DagMetrics = {
-      startedAt,
-      totalNodes: 0,
-      successfulNodes: 0,
-      failedNodes: 0,
-      skippedNodes: 0,
-      blockedNodes: 0,
-      nodes: {},
-    };
+  private standbyNodes(): Set<string> {
+    const standby = new Set<string>();
+    for (const node of this.nodesArray) {
+      if (typeof node.fallback === "string") standby.add(node.fallback);
+    }
+    return standby;
+  }
 
-    const completed = new Set<string>();
-    const failed = new Set<string>();
-    const blocked = new Set<string>();
+  private checkFallbacksAndBoundaries() {
+    const standby = this.standbyNodes();
+    for (const node of this.nodesArray) {
+      const fallback = node.fallback;
+      if (typeof fallback === "string" && !this.nodes.has(fallback)) {
+        throw new Error(`Node ${node.id} falls back to missing node "${fallback}"`);
+      }
+      if (standby.has(node.id) && typeof fallback === "string") {
+        throw new Error(`Fallback node ${node.id} cannot have a fallback node itself`);
+      }
+      for (const dep of node.dependsOn ?? []) {
+        if (standby.has(dep) || standby.has(node.id)) {
+          throw new Error(`Fallback node ${standby.has(dep) ? dep : node.id} cannot have dependencies or dependents`);
+        }
+      }
+    }
+    for (const boundary of this.boundaries.values()) {
+      for (const id of [...boundary.nodes, boundary.recovery]) {
+        if (!this.nodes.has(id)) {
+          throw new Error(`Boundary ${boundary.id} references missing node "${id}"`);
+        }
+      }
+    }
+  }
 
-    try {
-      const nodes = [...this.nodes.values()];
-      if (!this.executionPlan) {
-        this.executionPlan = this.planner(nodes);
-      }
-
-      metrics.totalNodes = nodes.length;
-      for (const batch of this.executionPlan.batches) {
-        const runnable = batch
-          .map(id => this.nodes.get(id)!)
-          .filter(n => !blocked.has(n.id));
-
-        const results = await Promise.all(
-          runnable.map(node =>
-            this.runNode(node, ctx, metrics)
-              .then(patch => ({ node, patch }))
-              .catch(err => ({ node, err }))
-          )
-        );
+  async execute(
+    initial: T,
+    options: DagExecuteOptions = {}
+  ): Promise<DagResult<T, O>> {
+    return this.run(
+      options.runId ?? randomUUID(),
+      { context: structuredClone(initial), completed: [], failed: [], blocked: [] },
+      options
+    );
+  }
 
-        for (const r of results) {
-          if ("patch" in r) {
-            ctx = mergeContext(ctx, r.patch);
-            completed.add(r.node.id);
-            metrics.successfulNodes++;
-            continue;
-          }
+  // Continues a run from its last checkpoint: settled nodes keep their
+  // outcome and metrics, everything else (including nodes that were in
+  // flight when the checkpoint was taken) runs again.
+  async resume(
+    runId: string,
+    options: Omit<DagExecuteOptions, "runId"> = {}
+  ): Promise<DagResult<T, O>> {
+    const store = this.options.checkpointStore;
+    if (!store) {
+      throw new Error("resume requires a checkpointStore");
+    }
+    const checkpoint = await store.load<T>(runId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for run ${runId}`);
+    }
+    return this.run(runId, checkpoint, options);
+  }
 
-          if (r.err instanceof SkipSuccessors) {
-            completed.add(r.node.id);
-            this.blockDependents(r.node.id, nodes, blocked, metrics);
-            continue;
-          }
+  private async run(
+    runId: string,
+    seed: RunSeed<T>,
+    options: DagExecuteOptions
+  ): Promise<DagResult<T, O>> {
+    const startedAt = Date.now();
+    const run = new AbortController();
+    // Every in-flight node listens on the run signal; wide fan-outs are
+    // expected, not a leak.
+    setMaxListeners(0, run.signal);
+    const onParentAbort = () => {
+      run.abort(new DagCancelledError("Run cancelled", { cause: options.signal?.reason }));
+    };
+    let deadlineId: NodeJS.Timeout | undefined;
 
-          failed.add(r.node.id);
-          metrics.failedNodes++;
+    if (options.signal?.aborted) {
+      onParentAbort();
+    } else {
+      options.signal?.addEventListener("abort", onParentAbort, { once: true });
+    }
+    if (options.deadlineMs !== undefined) {
+      deadlineId = setTimeout(() => {
+        run.abort(new DagCancelledError(`Run deadline of ${options.deadlineMs}ms exceeded`));
+      }, options.deadlineMs);
+    }
 
-          const strategy = r.node.config?.onError ?? "fail";
+    const standby = this.standbyNodes();
+    const state: RunState<T> = {
+      runId,
+      ctx: this.options.contextMode === "frozen"
+        ? deepFreeze(unwrapViews(seed.context))
+        : unwrapViews(seed.context),
+      metrics: seed.metrics ? restoreMetrics(seed, seed.metrics) : {
+        startedAt,
+        totalNodes: 0,
+        successfulNodes: 0,
+        failedNodes: 0,
+        skippedNodes: 0,
+        blockedNodes: 0,
+        notTakenNodes: 0,
+        cancelledNodes: 0,
+        nodes: {},
+      },
+      nodes: this.nodesArray.filter(n => !standby.has(n.id)),
+      completed: new Set(seed.completed),
+      failed: new Set(seed.failed),
+      blocked: new Set(seed.blocked),
+      notTaken: new Set(seed.notTaken),
+      gated: new Set(seed.gated),
+      started: new Set(),
+      standby,
+      branches: new Map(Object.entries(seed.branches ?? {})),
+      patches: new Map(Object.entries(seed.patches ?? {})),
+      outputs: new Map(Object.entries(seed.outputs ?? {})),
+      version: 0,
+      writes: new Map(),
+      snapshots: new Map(),
+      signal: run.signal,
+      abort: reason => run.abort(reason),
+      errors: [],
+      saving: Promise.resolve(),
+    };
+    const { metrics } = state;
+    this.emit("runStart", { runId, startedAt, totalNodes: state.nodes.length });
 
-          if (strategy === "fail") {
-            throw r.err;
-          }
+    try {
+      const plan = this.plan();
 
-          if (strategy === "skip-dependents") {
-            this.blockDependents(r.node.id, nodes, blocked, metrics);
-          }
-        }
+      metrics.totalNodes = state.nodes.length;
+      if (this.options.scheduler === "ready-queue") {
+        await this.runReadyQueue(plan, state);
+      } else {
+        await this.runBatches(plan, state);
       }
+      this.throwIfCancelled(state);
+      await this.options.checkpointStore?.delete(runId);
 
       metrics.finishedAt = Date.now();
-      return { success: true, context: ctx, metrics };
+      return this.finish({
+        runId,
+        success: true,
+        context: state.ctx,
+        outputs: Object.fromEntries(state.outputs) as Partial<O>,
+        metrics,
+        errors: state.errors,
+      });
 
     } catch (error) {
+      if (state.failure) {
+        error = state.failure.err;
+        // A cancelled sibling can end the run before the failed node's own
+        // result is applied.
+        if (!state.errors.some(e => e.cause === error || e === error)) {
+          this.recordFailure(state.failure.nodeId, error, state);
+        }
+      } else if (error instanceof DagCancelledError) {
+        this.cancelUnstarted(state);
+      }
+      // Node failures are already recorded; this adds run-level ones such
+      // as cancellation, write conflicts and invalid graphs.
+      if (!state.errors.some(e => e === error || e.cause === error)) {
+        state.errors.push(
+          error instanceof DagExecutionError
+            ? error
+            : new DagExecutionError((error as Error).message, undefined, undefined, { cause: error })
+        );
+      }
+      await this.compensate(state);
       metrics.finishedAt = Date.now();
-      return {
+      return this.finish({
+        runId,
         success: false,
-        context: ctx,
+        context: state.ctx,
+        outputs: Object.fromEntries(state.outputs) as Partial<O>,
         metrics,
         error: error as Error,
+        errors: state.errors,
+      });
+    } finally {
+      clearTimeout(deadlineId);
+      options.signal?.removeEventListener("abort", onParentAbort);
+    }
+  }
+
+  private finish(result: DagResult<T, O>): DagResult<T, O> {
+    this.emit("runEnd", result);
+    return result;
+  }
+
+  // Listener errors are logged rather than thrown so a broken dashboard
+  // handler cannot fail the run it is observing.
+  private emit<E extends DagEventName>(event: E, payload: DagEvents<T>[E]) {
+    for (const handler of this.listeners.get(event) ?? []) {
+      try {
+        Promise.resolve(handler(payload)).catch(err => this.logListenerError(event, err));
+      } catch (err) {
+        this.logListenerError(event, err);
+      }
+    }
+  }
+
+  private logListenerError(event: DagEventName, err: unknown) {
+    this.deps.logger.error(`DagEngine ${event} listener failed`, { error: err });
+  }
+
+  private async runBatches(plan: DagPlan, state: RunState<T>) {
+    for (const batch of plan.batches) {
+      this.throwIfCancelled(state);
+      const runnable = batch
+        .map(id => this.nodes.get(id)!)
+        .filter(n => !state.standby.has(n.id) && !this.isSettled(n.id, state));
+
+      const results = await Promise.all(
+        runnable.map(node => this.settleNode(node, state))
+      );
+
+      // Every result is applied even after one of them fails the run, so
+      // siblings that succeeded get compensated and every failure is
+      // recorded; only the first error surfaces.
+      let failure: { err: unknown } | undefined;
+      for (const r of results) {
+        try {
+          this.applyResult(r, state);
+        } catch (err) {
+          failure ??= { err };
+        }
+        if (!failure) await this.saveCheckpoint(state);
+      }
+      if (failure) throw failure.err;
+    }
+  }
+
+  // Starts each node as soon as all of its dependencies have settled instead
+  // of waiting for the whole previous batch. On a "fail" error no new nodes
+  // are started, but in-flight ones are awaited and their results applied
+  // before the error surfaces.
+  private async runReadyQueue(plan: DagPlan, state: RunState<T>) {
+    const pending = new Set(
+      plan.order.filter(id => !state.standby.has(id) && !this.isSettled(id, state))
+    );
+    const running = new Map<string, Promise<void>>();
+    let failure: { err: unknown } | undefined;
+
+    const launch = () => {
+      if (state.signal.aborted) {
+        failure = { err: state.signal.reason };
+        return;
+      }
+
+      for (const id of pending) {
+        if (state.blocked.has(id) || state.notTaken.has(id)) {
+          pending.delete(id);
+          continue;
+        }
+
+        const node = this.nodes.get(id)!;
+        const ready =
+          this.triggerState(node, state) === "run" &&
+          (this.orderingDeps.get(id) ?? []).every(dep => this.isSettled(dep, state));
+        if (!ready) continue;
+
+        pending.delete(id);
+        running.set(
+          id,
+          this.settleNode(node, state).then(async r => {
+            try {
+              this.applyResult(r, state);
+              if (!failure) await this.saveCheckpoint(state);
+            } catch (err) {
+              failure ??= { err };
+            } finally {
+              running.delete(id);
+            }
+          })
+        );
+      }
+    };
+
+    launch();
+    while (running.size) {
+      await Promise.race(running.values());
+      if (!failure) launch();
+    }
+
+    if (failure) {
+      throw failure.err;
+    }
+  }
+
+  // Waits for the node's concurrency slots before running it, so the context
+  // snapshot it receives is taken when it actually starts.
+  private async settleNode(
+    node: DagNode<T>,
+    state: RunState<T>
+  ): Promise<NodeResult<T>> {
+    state.started.add(node.id);
+    const queuedAt = Date.now();
+    let release: () => void;
+    try {
+      release = await this.acquireSlots(node, state.signal);
+    } catch (err) {
+      return { node, err };
+    }
+    const waitMs = Date.now() - queuedAt;
+
+    try {
+      this.throwIfCancelled(state);
+      state.snapshots.set(node.id, state.version);
+      return { node, ...(await this.runNode(node, state, waitMs)) };
+    } catch (err) {
+      if (this.options.failFast && this.isFatal(node, err, state)) {
+        this.failFast(node, err, state);
+      }
+      return { node, err };
+    } finally {
+      release();
+    }
+  }
+
+  private async acquireSlots(
+    node: DagNode<T>,
+    signal: AbortSignal
+  ): Promise<() => void> {
+    // Tags are acquired in a fixed order and the global slot last, so two
+    // nodes sharing several tags can never hold each other's slots.
+    const semaphores = [...new Set(node.config?.concurrencyTags ?? [])]
+      .sort()
+      .map(tag => this.tagLimits.get(tag))
+      .filter((s): s is Semaphore => !!s);
+    if (this.globalLimit) {
+      semaphores.push(this.globalLimit);
+    }
+
+    const held: Semaphore[] = [];
+    const release = () => {
+      for (const semaphore of held) {
+        semaphore.release();
+      }
+    };
+
+    try {
+      for (const semaphore of semaphores) {
+        await semaphore.acquire(signal);
+        held.push(semaphore);
+      }
+    } catch (err) {
+      release();
+      throw err;
+    }
+
+    return release;
+  }
+
+  private isFatal(node: DagNode<T>, err: unknown, state: RunState<T>) {
+    return (
+      !state.signal.aborted &&
+      !(err instanceof SkipSuccessors) &&
+      this.errorStrategy(node.id, state) === "fail"
+    );
+  }
+
+  // A node failed fast by an open circuit uses onCircuitOpen, so an outage
+  // can e.g. skip dependents while ordinary failures still fail the run.
+  private errorStrategy(nodeId: string, state: RunState<T>): ErrorStrategy {
+    const config = this.nodes.get(nodeId)!.config;
+    const open = state.metrics.nodes[nodeId]?.circuitOpen !== undefined;
+    const strategy = (open ? config?.onCircuitOpen : undefined) ?? config?.onError ?? "fail";
+    return strategy === "fail" && this.boundaryOf.has(nodeId) ? "skip-dependents" : strategy;
+  }
+
+  // Aborts every other in-flight node the moment a node fails, instead of
+  // letting them run to completion. The original error is kept as the run's
+  // error; the aborted siblings are marked "cancelled".
+  private failFast(node: DagNode<T>, err: unknown, state: RunState<T>) {
+    state.failure = { nodeId: node.id, err };
+    state.abort(
+      new DagCancelledError(`Run aborted after node ${node.id} failed`, { cause: err })
+    );
+  }
+
+  private mergePatch(node: DagNode<T>, patch: Partial<T>, state: RunState<T>): T {
+    const frozen = this.options.contextMode === "frozen";
+    if (frozen) {
+      // Detach the patch from objects the node may still hold before it
+      // becomes part of the shared context.
+      patch = structuredClone(patch);
+    }
+    const seen = state.snapshots.get(node.id) ?? state.version;
+    const keys = Object.keys(patch) as (keyof T & string)[];
+    const resolved: Partial<T> = { ...patch };
+
+    for (const key of keys) {
+      // Reduced keys combine every write, so concurrent writers cannot
+      // clobber each other and are not treated as conflicts.
+      const reducer = this.options.reducers?.[key];
+      if (reducer) {
+        resolved[key] = reducer === "deep-merge"
+          ? deepMerge(state.ctx[key], patch[key]) as T[typeof key]
+          : reducer(state.ctx[key], patch[key] as T[typeof key]);
+        continue;
+      }
+
+      const last = state.writes.get(key);
+      if (!last || last.version <= seen || last.nodeId === node.id) continue;
+
+      const strategy: MergeStrategy<any> =
+        this.options.conflictStrategies?.[key] ?? this.options.onConflict ?? "last-wins";
+      const resolution = typeof strategy === "function" ? "custom" : strategy;
+      (state.metrics.conflicts ??= []).push({
+        key,
+        nodeId: node.id,
+        conflictsWith: last.nodeId,
+        resolution,
+      });
+
+      if (strategy === "error") {
+        throw new DagConflictError(key, node.id, last.nodeId);
+      } else if (strategy === "deep-merge") {
+        resolved[key] = deepMerge(state.ctx[key], patch[key]) as T[typeof key];
+      } else if (typeof strategy === "function") {
+        resolved[key] = strategy(state.ctx[key], patch[key]);
+      }
+    }
+
+    state.version++;
+    for (const key of keys) {
+      state.writes.set(key, { version: state.version, nodeId: node.id });
+    }
+    return frozen
+      ? deepFreeze({ ...state.ctx, ...resolved })
+      : mergeContext(state.ctx, resolved);
+  }
+
+  // Undoes the nodes that succeeded before the run failed, in reverse
+  // topological order. Under the "stop" policy the first failing compensation
+  // leaves the remaining ones un-run (recorded as "skipped").
+  private async compensate(state: RunState<T>) {
+    let stopped = false;
+
+    for (const id of [...(this.executionPlan?.order ?? [])].reverse()) {
+      const node = this.nodes.get(id)!;
+      const patch = state.patches.get(id);
+      const m = state.metrics.nodes[id];
+      if (!node.compensate || !patch || m?.status !== "success") continue;
+
+      if (stopped) {
+        m.compensation = { status: "skipped", durationMs: 0 };
+        continue;
+      }
+
+      const start = Date.now();
+      try {
+        await node.compensate(this.contextFor(node, state), patch);
+        m.compensation = { status: "success", durationMs: Date.now() - start };
+      } catch (err) {
+        m.compensation = {
+          status: "failed",
+          durationMs: Date.now() - start,
+          error: (err as Error).message,
+        };
+        this.deps.logger.error(`Compensation for node ${id} failed`, { error: err });
+        stopped = this.options.compensationPolicy === "stop";
+      }
+    }
+  }
+
+  private isSettled(id: string, state: RunState<T>) {
+    return (
+      state.completed.has(id) ||
+      state.failed.has(id) ||
+      state.blocked.has(id) ||
+      state.notTaken.has(id)
+    );
+  }
+
+  // Saves are chained so that concurrent completions under the ready-queue
+  // scheduler are written in the order their patches were merged.
+  private async saveCheckpoint(state: RunState<T>) {
+    const store = this.options.checkpointStore;
+    if (!store) return;
+
+    const checkpoint: DagCheckpoint<T> = {
+      runId: state.runId,
+      context: state.ctx,
+      completed: [...state.completed],
+      failed: [...state.failed],
+      blocked: [...state.blocked],
+      notTaken: [...state.notTaken],
+      gated: [...state.gated],
+      branches: Object.fromEntries(state.branches),
+      patches: Object.fromEntries(state.patches),
+      outputs: Object.fromEntries(state.outputs),
+      metrics: structuredClone(state.metrics),
+    };
+    state.saving = state.saving.then(() => store.save(checkpoint));
+    await state.saving;
+  }
+
+  private throwIfCancelled(state: RunState<T>) {
+    if (state.signal.aborted) {
+      throw state.signal.reason;
+    }
+  }
+
+  private cancelUnstarted(state: RunState<T>) {
+    for (const node of state.nodes) {
+      if (!state.metrics.nodes[node.id]) {
+        state.metrics.nodes[node.id] = {
+          attempts: 0,
+          status: "cancelled",
+          durationMs: 0,
+        };
+        state.metrics.cancelledNodes++;
+        this.emit("nodeCancelled", { nodeId: node.id, attempt: 0 });
+      }
+    }
+  }
+
+  private applyResult(r: NodeResult<T>, state: RunState<T>) {
+    const { metrics } = state;
+
+    const recovers = this.recoveryOf.get(r.node.id);
+    if (recovers && metrics.nodes[r.node.id]) {
+      metrics.nodes[r.node.id].recovered = {
+        boundary: recovers.id,
+        failedNodes: recovers.nodes.filter(id => state.failed.has(id)),
       };
     }
+
+    if ("patch" in r) {
+      state.ctx = this.mergePatch(r.node, r.patch, state);
+      state.patches.set(r.node.id, r.patch);
+      if (r.output) {
+        state.outputs.set(r.node.id, r.output.value);
+      }
+      state.completed.add(r.node.id);
+      metrics.successfulNodes++;
+      if (r.taken) {
+        state.branches.set(r.node.id, r.taken);
+      }
+      this.settleDependents(state);
+      return;
+    }
+
+    if (r.err instanceof SkipSuccessors) {
+      state.completed.add(r.node.id);
+      state.gated.add(r.node.id);
+      this.settleDependents(state);
+      return;
+    }
+
+    if (r.err instanceof DagCancelledError && state.signal.aborted) {
+      throw r.err;
+    }
+
+    state.failed.add(r.node.id);
+    metrics.failedNodes++;
+    this.recordFailure(r.node.id, r.err, state);
+    const boundary = this.boundaryOf.get(r.node.id);
+    if (boundary && metrics.nodes[r.node.id]) {
+      metrics.nodes[r.node.id].caughtBy = boundary.id;
+    }
+
+    const strategy = this.errorStrategy(r.node.id, state);
+
+    if (strategy === "fail") {
+      throw r.err;
+    }
+    this.settleDependents(state);
   }
 
 
+  private recordFailure(nodeId: string, err: unknown, state: RunState<T>) {
+    state.errors.push(
+      err instanceof DagNodeTimeoutError && err.nodeId === nodeId
+        ? err
+        : new DagNodeFailedError(nodeId, state.metrics.nodes[nodeId]?.attempts ?? 0, err)
+    );
+  }
+
   private async runNode(
     node: DagNode<T>,
-    ctx: T,
-    metrics: DagMetrics
-  ): Promise<Partial<T>> {
+    state: RunState<T>,
+    waitMs: number
+  ): Promise<NodeOutcome<T>> {
+    const { metrics, signal } = state;
+    const ctx = this.contextFor(node, state);
+    const deps = this.depsFor(node, state);
     const start = Date.now();
 
     if (node.shouldRun) {
-      const run = await node.shouldRun(ctx);
+      const run = await this.runGuard(node, "shouldRun", ctx, state, waitMs);
       if (!run) {
         metrics.nodes[node.id] = {
           attempts: 0,
           status: "skipped",
           durationMs: 0,
+          waitMs,
         };
         metrics.skippedNodes++;
+        this.emit("nodeSkipped", { nodeId: node.id, attempt: 0 });
         throw new SkipSuccessors(node.id);
       }
     }
 
     if (node.validate) {
-      const valid = await node.validate(ctx);
+      const valid = await this.runGuard(node, "validate", ctx, state, waitMs);
       if (!valid) {
         metrics.nodes[node.id] = {
           attempts: 0,
           status: "skipped",
           durationMs: 0,
+          waitMs,
         };
         metrics.skippedNodes++;
-        return {};
+        this.emit("nodeSkipped", { nodeId: node.id, attempt: 0 });
+        return { patch: {} };
       }
     }
 
     const retries = node.config?.maxRetries ?? 0;
-    const delay = node.config?.retryDelayMs ?? 500;
 
     let attempts = 0;
     let lastError: Error | undefined;
+    let lastDelay: number | undefined;
+    const annotations: DagNodeAnnotations = {};
+    const attemptErrors: DagAttemptError[] = [];
+    const history = () => (attemptErrors.length ? { attemptErrors } : {});
+    const breaker = node.config?.circuitBreaker
+      ? this.breakers.get(node.config.circuitBreaker)
+      : undefined;
+    const onTransition = (from: CircuitState, to: CircuitState) => {
+      (metrics.circuitTransitions ??= []).push({
+        breaker: breaker!.name,
+        from,
+        to,
+        nodeId: node.id,
+        at: Date.now(),
+      });
+    };
+    let circuitOpen: string | undefined;
 
     try {
       for (let i = 0; i <= retries; i++) {
+        if (breaker && !breaker.acquire(onTransition)) {
+          // Only a node that never got to run is failed fast by the circuit;
+          // one whose retries it cut short keeps its own error and strategy.
+          if (attempts === 0) {
+            circuitOpen = breaker.name;
+            lastError = new DagCircuitOpenError(breaker.name, node.id);
+          } else {
+            delete attemptErrors[attemptErrors.length - 1].delayMs;
+          }
+          break;
+        }
         attempts++;
         const controller = new AbortController();
+        const run: DagNodeRun = {
+          runId: state.runId,
+          nodeId: node.id,
+          attempt: attempts,
+          // Once the node has settled (e.g. its timeout left a child run
+          // finishing), fields go straight into its metrics entry.
+          annotate: fields => Object.assign(metrics.nodes[node.id] ?? annotations, fields),
+        };
+        if (attempts === 1) {
+          this.emit("nodeStart", { nodeId: node.id, attempt: attempts });
+        } else {
+          this.emit("nodeRetry", { nodeId: node.id, attempt: attempts, error: lastError });
+        }
 
         try {
-          const patch = await this.withTimeout(node, ctx, controller);
+          let outcome: NodeOutcome<T>;
+          try {
+            outcome = toOutcome(
+              await this.withTimeout(node, node.execute, ctx, deps, controller, signal, run)
+            );
+          } catch (err) {
+            breaker?.failure(signal.aborted, onTransition);
+            throw err;
+          }
+          breaker?.success(onTransition);
+          if (node.branch) {
+            outcome.taken = await this.selectBranches(node, ctx, outcome.patch, state);
+          }
           metrics.nodes[node.id] = {
+            ...annotations,
+            ...history(),
             attempts,
             status: "success",
             durationMs: Date.now() - start,
+            waitMs,
           };
-          return patch;
+          this.emit("nodeSuccess", {
+            nodeId: node.id,
+            attempt: attempts,
+            patch: outcome.patch,
+            output: outcome.output?.value,
+          });
+          return outcome;
         } catch (err) {
           lastError = err as Error;
-          if (i < retries) {
-            await sleep(delay * 2 ** i);
+          // An attempt cut short by cancellation is not a failure of the node.
+          if (signal.aborted) {
+            break;
           }
+          const entry: DagAttemptError = { attempt: attempts, error: lastError?.message };
+          attemptErrors.push(entry);
+          if (i === retries || node.config?.retry?.shouldRetry?.(err, attempts) === false) {
+            break;
+          }
+          entry.delayMs = lastDelay = retryDelay(node.config!, err, attempts, lastDelay);
+          await sleep(entry.delayMs, signal);
+          if (signal.aborted) {
+            break;
+          }
+        }
+      }
+
+      let fallback: DagFallbackMetrics | undefined;
+      if (node.fallback && !signal.aborted) {
+        const fallbackStart = Date.now();
+        const fallbackNode = typeof node.fallback === "string" ? node.fallback : undefined;
+        try {
+          const outcome = await this.runFallback(node, ctx, deps, state, attempts);
+          metrics.nodes[node.id] = {
+            ...annotations,
+            ...history(),
+            ...(circuitOpen && { circuitOpen }),
+            attempts,
+            status: "success",
+            durationMs: Date.now() - start,
+            waitMs,
+            error: lastError?.message,
+            fallback: {
+              status: "success",
+              durationMs: Date.now() - fallbackStart,
+              ...(fallbackNode && { node: fallbackNode }),
+            },
+          };
+          this.emit("nodeSuccess", {
+            nodeId: node.id,
+            attempt: attempts,
+            patch: outcome.patch,
+            output: outcome.output?.value,
+          });
+          return outcome;
+        } catch (err) {
+          fallback = {
+            status: "failed",
+            durationMs: Date.now() - fallbackStart,
+            ...(fallbackNode && { node: fallbackNode }),
+            error: (err as Error).message,
+          };
         }
       }
 
+      if (signal.aborted) {
+        metrics.nodes[node.id] = {
+          ...annotations,
+          ...history(),
+          ...(fallback && { fallback }),
+          attempts,
+          status: "cancelled",
+          durationMs: Date.now() - start,
+          waitMs,
+          error: (signal.reason as Error).message,
+        };
+        metrics.cancelledNodes++;
+        this.emit("nodeCancelled", {
+          nodeId: node.id,
+          attempt: attempts,
+          error: signal.reason,
+        });
+        throw signal.reason;
+      }
+
       metrics.nodes[node.id] = {
+        ...annotations,
+        ...history(),
+        ...(circuitOpen && { circuitOpen }),
+        ...(fallback && { fallback }),
         attempts,
         status: "failed",
         durationMs: Date.now() - start,
+        waitMs,
         error: lastError?.message,
       };
+      this.emit("nodeFailed", { nodeId: node.id, attempt: attempts, error: lastError });
 
+      // Siblings are aborted before this node's cleanup runs, not after.
+      const fatal = !state.standby.has(node.id) && this.isFatal(node, lastError, state);
+      if (this.options.failFast && fatal) {
+        this.failFast(node, lastError, state);
+      }
       throw lastError;
 
     } finally {
-      await node.cleanup?.(ctx);
+      await this.runCleanup(node, ctx, state, attempts);
     }
   }
 
-  private async withTimeout(
+  // A fallback function gets a single attempt under the node's timeout; a
+  // fallback node runs with its own config and hooks and records its own
+  // metrics entry. Either way the node's branch selection uses the result.
+  private async runFallback(
     node: DagNode<T>,
     ctx: T,
-    controller: AbortController
-  ): Promise<Partial<T>> {
-    const timeoutMs = node.config?.timeoutMs;
-    if (!timeoutMs) {
-      return node.execute(ctx, this.deps, controller.signal);
+    deps: DagNodeRunDeps,
+    state: RunState<T>,
+    attempt: number
+  ): Promise<NodeOutcome<T>> {
+    let outcome: NodeOutcome<T>;
+    if (typeof node.fallback === "string") {
+      outcome = await this.runNode(this.nodes.get(node.fallback)!, state, 0);
+    } else {
+      const run: DagNodeRun = {
+        runId: state.runId,
+        nodeId: node.id,
+        attempt,
+        annotate: () => {},
+      };
+      outcome = toOutcome(
+        await this.withTimeout(node, node.fallback!, ctx, deps, new AbortController(), state.signal, run)
+      );
     }
+    if (node.branch) {
+      outcome.taken = await this.selectBranches(node, ctx, outcome.patch, state);
+    }
+    return outcome;
+  }
 
-    let timeoutId!: NodeJS.Timeout;
+  // Under strictContext every hook sees a read-only view that reports
+  // mutations with the node id and property path.
+  private contextFor(node: DagNode<T>, state: RunState<T>): T {
+    return this.options.strictContext ? readonlyView(state.ctx, node.id) : state.ctx;
+  }
 
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      timeoutId = setTimeout(() => {
-        controller.abort();
-        reject(new Error(`${node.id} timed out`));
-      }, timeoutMs);
+  // Only direct dependencies are exposed; the outputs of other nodes may not
+  // exist yet when this node starts.
+  private depsFor(node: DagNode<T>, state: RunState<T>): DagNodeRunDeps {
+    const outputs: Record<string, unknown> = {};
+    for (const id of node.dependsOn ?? []) {
+      if (state.outputs.has(id)) {
+        outputs[id] = state.outputs.get(id);
+      }
+    }
+    return {
+      ...this.deps,
+      outputs: this.options.strictContext ? readonlyView(outputs, node.id, "outputs") : outputs,
+    };
+  }
+
+  // A shouldRun or validate hook that throws or times out fails the node
+  // before any attempt; the failure goes through onError like any other.
+  private async runGuard(
+    node: DagNode<T>,
+    hook: "shouldRun" | "validate",
+    ctx: T,
+    state: RunState<T>,
+    waitMs: number
+  ): Promise<boolean> {
+    const start = Date.now();
+    try {
+      return await this.runHook(node, hook, signal => node[hook]!(ctx, signal), state.signal, 0);
+    } catch (err) {
+      if (state.signal.aborted) throw err;
+      const error = (err as Error).message;
+      state.metrics.nodes[node.id] = {
+        attempts: 0,
+        status: "failed",
+        durationMs: Date.now() - start,
+        waitMs,
+        error,
+        hookError: { hook, error, ...(err instanceof DagHookTimeoutError && { timedOut: true }) },
+      };
+      this.emit("nodeFailed", { nodeId: node.id, attempt: 0, error: err });
+      throw err;
+    }
+  }
+
+  // Cleanup errors never change the node's outcome, so they cannot mask the
+  // error of a failed execute; they are logged and kept in the metrics.
+  private async runCleanup(node: DagNode<T>, ctx: T, state: RunState<T>, attempt: number) {
+    if (!node.cleanup) return;
+
+    try {
+      await this.runHook(node, "cleanup", signal => node.cleanup!(ctx, signal), state.signal, attempt);
+    } catch (err) {
+      const error = (err as Error).message;
+      const entry = state.metrics.nodes[node.id];
+      if (entry) {
+        entry.hookError = {
+          hook: "cleanup",
+          error,
+          ...(err instanceof DagHookTimeoutError && { timedOut: true }),
+        };
+      }
+      this.deps.logger.error(`Cleanup for node ${node.id} failed`, { error: err });
+    }
+  }
+
+  // Runs a hook under its timeout with a signal that fires when the timeout
+  // does. shouldRun and validate are also interrupted by the run signal.
+  // Cleanup is not, as it is expected to run after a cancellation, but from
+  // the moment the run is aborted it only gets cleanupGraceMs, so a hanging
+  // hook cannot keep a cancelled run open.
+  private async runHook<R>(
+    node: DagNode<T>,
+    hook: DagHookName,
+    call: (signal: AbortSignal) => R | Promise<R>,
+    runSignal: AbortSignal,
+    attempt: number
+  ): Promise<R> {
+    const timeoutMs = node.config?.hookTimeouts?.[hook] || undefined;
+    const graceMs = this.options.cleanupGraceMs ?? 1000;
+    const controller = new AbortController();
+    let timeoutId: NodeJS.Timeout | undefined;
+    let graceId: NodeJS.Timeout | undefined;
+    let onAbort!: () => void;
+
+    const interrupted = new Promise<never>((_, reject) => {
+      const expire = (ms: number) => () => {
+        const err = new DagHookTimeoutError(node.id, hook, attempt, ms);
+        controller.abort(err);
+        reject(err);
+      };
+      onAbort = hook === "cleanup"
+        ? () => {
+          graceId = setTimeout(expire(graceMs), graceMs);
+        }
+        : () => {
+          controller.abort(runSignal.reason);
+          reject(runSignal.reason);
+        };
+      if (timeoutMs !== undefined) {
+        timeoutId = setTimeout(expire(timeoutMs), timeoutMs);
+      }
     });
 
+    if (runSignal.aborted) {
+      onAbort();
+    } else {
+      runSignal.addEventListener("abort", onAbort, { once: true });
+    }
+
     try {
       return await Promise.race([
-        node.execute(ctx, this.deps, controller.signal),
-        timeoutPromise,
+        Promise.resolve().then(() => call(controller.signal)),
+        interrupted,
       ]);
     } finally {
       clearTimeout(timeoutId);
+      clearTimeout(graceId);
+      runSignal.removeEventListener("abort", onAbort);
     }
   }
 
-  private blockDependents(
-    nodeId: string,
-    nodes: DagNode<T>[],
-    blocked: Set<string>,
-    metrics: DagMetrics
+  // Races execute against the node timeout and the run signal, so a node
+  // that ignores its own signal cannot hold the run open after either fires.
+  private async withTimeout(
+    node: DagNode<T>,
+    execute: DagNode<T>["execute"],
+    ctx: T,
+    deps: DagNodeRunDeps,
+    controller: AbortController,
+    runSignal: AbortSignal,
+    run: DagNodeRun
+  ): Promise<Partial<T> | DagNodeOutput<unknown, Partial<T>>> {
+    const timeoutMs = node.config?.timeoutMs;
+    let timeoutId: NodeJS.Timeout | undefined;
+    let onAbort!: () => void;
+
+    const interrupted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        controller.abort(runSignal.reason);
+        reject(runSignal.reason);
+      };
+      if (timeoutMs) {
+        timeoutId = setTimeout(() => {
+          controller.abort();
+          reject(new DagNodeTimeoutError(node.id, run.attempt, timeoutMs));
+        }, timeoutMs);
+      }
+    });
+
+    if (runSignal.aborted) {
+      onAbort();
+    } else {
+      runSignal.addEventListener("abort", onAbort, { once: true });
+    }
+
+    try {
+      return await Promise.race([
+        execute.call(node, ctx, deps, controller.signal, run),
+        interrupted,
+      ]);
+    } finally {
+      clearTimeout(timeoutId);
+      runSignal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private async selectBranches(
+    node: DagNode<T>,
+    ctx: T,
+    patch: Partial<T>,
+    state: RunState<T>
+  ): Promise<string[]> {
+    const selected = await node.branch!(ctx, patch);
+    const taken = typeof selected === "string" ? [selected] : [...selected];
+    for (const id of taken) {
+      if (!state.nodes.some(n => n.id === id && n.dependsOn?.includes(node.id))) {
+        throw new Error(`Branch node ${node.id} selected ${id}, which does not depend on it`);
+      }
+    }
+    return taken;
+  }
+
+  // Resolves every node that has not started yet whose dependencies already
+  // decide its fate: nodes without an active dependency are not taken, and
+  // nodes whose trigger rule can no longer be met are blocked. Repeats until
+  // nothing changes, since each newly settled node can decide its dependents.
+  private settleDependents(state: RunState<T>) {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const node of state.nodes) {
+        if (state.started.has(node.id) || this.isSettled(node.id, state)) continue;
+
+        const trigger = this.triggerState(node, state);
+        if (trigger === "block") {
+          state.blocked.add(node.id);
+          state.metrics.nodes[node.id] = { attempts: 0, status: "blocked", durationMs: 0 };
+          state.metrics.blockedNodes++;
+          this.emit("nodeBlocked", { nodeId: node.id, attempt: 0 });
+          changed = true;
+        } else if (trigger === "not-taken") {
+          state.notTaken.add(node.id);
+          state.metrics.nodes[node.id] = { attempts: 0, status: "not-taken", durationMs: 0 };
+          state.metrics.notTakenNodes++;
+          this.emit("nodeNotTaken", { nodeId: node.id, attempt: 0 });
+          changed = true;
+        }
+      }
+    }
+  }
+
+  // Dependencies on the inactive side of a branch are ignored; a node left
+  // without active dependencies is not taken. The remaining ones are
+  // classified as succeeded, failed (the run continued past the failure),
+  // skipped (gated off by shouldRun, or blocked) or still pending.
+  private triggerState(
+    node: DagNode<T>,
+    state: RunState<T>
+  ): "wait" | "run" | "block" | "not-taken" {
+    const boundary = this.recoveryOf.get(node.id);
+    if (boundary) {
+      if (boundary.nodes.some(id => !this.isSettled(id, state))) return "wait";
+      if (!boundary.nodes.some(id => state.failed.has(id))) return "not-taken";
+    }
+
+    const deps = node.dependsOn ?? [];
+    if (!deps.length) return "run";
+
+    const active = deps.filter(
+      dep => !state.notTaken.has(dep) && state.branches.get(dep)?.includes(node.id) !== false
+    );
+    if (!active.length) return "not-taken";
+
+    let succeeded = 0;
+    let failed = 0;
+    let skipped = 0;
+    let pending = 0;
+    let blocking = false;
+    for (const dep of active) {
+      if (state.failed.has(dep)) {
+        failed++;
+        blocking ||= this.errorStrategy(dep, state) === "skip-dependents";
+      } else if (state.gated.has(dep) || state.blocked.has(dep)) {
+        skipped++;
+      } else if (state.completed.has(dep)) {
+        succeeded++;
+      } else {
+        pending++;
+      }
+    }
+
+    const settled = pending ? "wait" : "run";
+    switch (node.config?.trigger) {
+      case "all-success":
+        return failed || skipped ? "block" : settled;
+      case "all-done":
+        return settled;
+      case "none-failed":
+        return failed ? "block" : settled;
+      case "any-success":
+      case "first-n": {
+        const needed = node.config.trigger === "first-n" ? node.config.triggerCount! : 1;
+        if (succeeded >= needed) return "run";
+        return succeeded + pending < needed ? "block" : "wait";
+      }
+      default:
+        return skipped || blocking ? "block" : settled;
+    }
+  }
+}
+
+export function createDag<T>(
+  deps: DagNodeDeps,
+  planner?: (node: DagNode<T>[]) => DagPlan,
+  options?: DagEngineOptions<T>
+): DagEngine<T, {}> {
+  return new DagEngine<T, {}>(deps, planner, options);
+}
+
+// Opens after failureThreshold consecutive failures and fails calls fast
+// until resetTimeoutMs has passed. It then lets a single trial call through
+// (half-open): success closes the circuit, failure opens it again.
+class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private trial = false;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions
   ) {
-    for (const node of nodes) {
-      if ((node.dependsOn ?? []).includes(nodeId) && !blocked.has(node.id)) {
-        blocked.add(node.id);
-        metrics.nodes[node.id] = {
-          attempts: 0,
-          status: "blocked",
-          durationMs: 0,
-        };
-        metrics.blockedNodes++;
-        this.blockDependents(node.id, nodes, blocked, metrics);
+    const { failureThreshold, resetTimeoutMs } = options;
+    if (!Number.isInteger(failureThreshold) || failureThreshold < 1) {
+      throw new Error(
+        `circuitBreakers.${name}.failureThreshold must be a positive integer, got ${failureThreshold}`
+      );
+    }
+    if (!(resetTimeoutMs >= 0)) {
+      throw new Error(
+        `circuitBreakers.${name}.resetTimeoutMs must be a non-negative number, got ${resetTimeoutMs}`
+      );
+    }
+  }
+
+  current(): CircuitState {
+    return this.state;
+  }
+
+  // Returns false when the call has to fail fast.
+  acquire(onTransition: TransitionListener): boolean {
+    if (this.state === "open") {
+      if (Date.now() - this.openedAt < this.options.resetTimeoutMs) return false;
+      this.transition("half-open", onTransition);
+    }
+    if (this.state === "half-open") {
+      if (this.trial) return false;
+      this.trial = true;
+    }
+    return true;
+  }
+
+  success(onTransition: TransitionListener) {
+    this.failures = 0;
+    if (this.state === "half-open") {
+      this.trial = false;
+      this.transition("closed", onTransition);
+    }
+  }
+
+  // A call aborted by its run says nothing about the service; it only
+  // frees the trial slot.
+  failure(cancelled: boolean, onTransition: TransitionListener) {
+    if (this.state === "half-open") {
+      this.trial = false;
+      if (!cancelled) this.open(onTransition);
+    } else if (this.state === "closed" && !cancelled) {
+      if (++this.failures >= this.options.failureThreshold) this.open(onTransition);
+    }
+  }
+
+  private open(onTransition: TransitionListener) {
+    this.failures = 0;
+    this.openedAt = Date.now();
+    this.transition("open", onTransition);
+  }
+
+  private transition(to: CircuitState, onTransition: TransitionListener) {
+    const from = this.state;
+    this.state = to;
+    onTransition(from, to);
+  }
+}
+
+type TransitionListener = (from: CircuitState, to: CircuitState) => void;
+
+class Semaphore {
+  private active = 0;
+  private waiters: (() => void)[] = [];
+
+  constructor(name: string, private readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`${name} must be a positive integer, got ${limit}`);
+    }
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+
+    await new Promise<void>((res, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener("abort", onAbort);
+        res();
+      };
+      const onAbort = () => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  release() {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((res) => {
+    const timeoutId = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", done);
+      res();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+function toOutcome<T>(result: Partial<T> | DagNodeOutput<unknown, Partial<T>>): NodeOutcome<T> {
+  result = unwrapViews(result);
+  return result instanceof DagNodeOutput
+    ? { patch: unwrapViews(result.patch) ?? {}, output: { value: unwrapViews(result.value) } }
+    : { patch: result };
+}
+
+// Delay before the retry that follows failed attempt `attempt`. An override
+// from delayFor skips jitter, but maxDelayMs still caps every delay.
+function retryDelay(
+  config: DagNodeConfig,
+  err: unknown,
+  attempt: number,
+  previous: number | undefined
+): number {
+  const policy = config.retry ?? {};
+  const cap = policy.maxDelayMs ?? Infinity;
+  const base = config.retryDelayMs ?? 500;
+  const override = policy.delayFor?.(err, attempt);
+  if (override !== undefined) {
+    return Math.min(override, cap);
+  }
+
+  const exponential = Math.min(base * 2 ** (attempt - 1), cap);
+  switch (policy.jitter ?? "none") {
+    case "full":
+      return Math.random() * exponential;
+    case "equal":
+      return exponential / 2 + Math.random() * (exponential / 2);
+    case "decorrelated": {
+      // Grows from the previous delay instead of the attempt number.
+      const upper = (previous ?? base) * 3;
+      return Math.min(cap, base + Math.random() * (upper - base));
+    }
+    default:
+      return exponential;
+  }
+}
+
+// Node metrics are written before a result is merged, so a checkpoint can hold
+// entries for nodes that had finished but not yet settled. Those nodes run
+// again on resume, so their entries and counters are dropped here.
+function restoreMetrics<T>(seed: RunSeed<T>, saved: DagMetrics): DagMetrics {
+  const metrics = structuredClone(saved);
+  const settled = new Set([
+    ...seed.completed,
+    ...seed.failed,
+    ...seed.blocked,
+    ...(seed.notTaken ?? []),
+  ]);
+
+  for (const [id, node] of Object.entries(metrics.nodes)) {
+    if (settled.has(id)) continue;
+    if (node.status === "skipped") metrics.skippedNodes--;
+    if (node.status === "cancelled") metrics.cancelledNodes--;
+    delete metrics.nodes[id];
+  }
+  delete metrics.finishedAt;
+
+  return metrics;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function deepMerge(current: unknown, incoming: unknown): unknown {
+  if (!isPlainObject(current) || !isPlainObject(incoming)) {
+    return incoming;
+  }
+  const merged: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(incoming)) {
+    merged[key] = deepMerge(current[key], value);
+  }
+  return merged;
+}
+
+// Pairs of nodes that are not ordered by dependsOn but whose declared
+// writes overlap each other's writes or reads. `first` precedes `second` in
+// the plan order, so an edge first -> second can never create a cycle.
+function findWriteConflicts<T>(nodes: DagNode<T>[], order: string[]) {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const ancestors = new Map<string, Set<string>>();
+  for (const id of order) {
+    const set = new Set<string>();
+    for (const dep of byId.get(id)!.dependsOn ?? []) {
+      set.add(dep);
+      ancestors.get(dep)!.forEach(a => set.add(a));
+    }
+    ancestors.set(id, set);
+  }
+
+  const overlap = (writes: string[] = [], other: DagNode<T>) => {
+    const touched = new Set<string>([...(other.writes ?? []), ...(other.reads ?? [])]);
+    return writes.find(key => touched.has(key));
+  };
+
+  const conflicts: { key: string; first: string; second: string }[] = [];
+  for (let i = 0; i < order.length; i++) {
+    for (let j = i + 1; j < order.length; j++) {
+      const a = byId.get(order[i])!;
+      const b = byId.get(order[j])!;
+      if (ancestors.get(b.id)!.has(a.id)) continue;
+
+      const key = overlap(a.writes, b) ?? overlap(b.writes, a);
+      if (key) {
+        conflicts.push({ key, first: a.id, second: b.id });
       }
     }
   }
+  return conflicts;
 }
 
-function sleep(ms: number) {
-  return new Promise((res) => setTimeout(res, ms));
+// Freezes plain objects and arrays recursively. Frozen subtrees are skipped:
+// everything the engine freezes is frozen deeply, so a frozen object is an
+// unchanged part of an earlier snapshot and merges stay proportional to the
+// size of the patch rather than the whole context.
+function deepFreeze<V>(value: V): V {
+  if ((Array.isArray(value) || isPlainObject(value)) && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) {
+      deepFreeze(child);
+    }
+  }
+  return value;
 }
 
 function mergeContext<T>(base: T, patch: Partial<T>): T {
@@ -380,7 +2089,7 @@ function defaultPlanner<T>(nodes: DagNode<T>[]): DagPlan {
     const cycle = [...indegree.entries()]
       .filter(([, d]) => d > 0)
       .map(([id]) => id);
-    throw new Error(`Cycle detected: ${cycle.join(" -> ")}`);
+    throw new DagCycleError(cycle);
   }
 
   return { order, batches };
@@ -0,0 +1,103 @@
+import {
+  DagNodeOutput,
+  type DagLoopIterationMetrics,
+  type DagNode,
+  type DagNodeAnnotations,
+  type DagNodeConfig,
+} from "./index";
+
+export interface LoopNodeOptions<T, Id extends string = string, Dep extends string = string> {
+  id: Id;
+  dependsOn?: Dep[];
+  config?: DagNodeConfig;
+  // Runs once per iteration; a subDag() node repeats a whole sub-graph.
+  body: DagNode<T>;
+  until(ctx: Readonly<T>, iteration: number): boolean | Promise<boolean>;
+  maxIterations: number;
+  delayMs?: number;
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((res, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      res();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Repeats `body` until `until` holds for the context with every iteration's
+// patch applied, failing once maxIterations is exhausted. The repetition
+// happens inside a single node, so the planned graph stays acyclic and the
+// node's timeout and retries cover the loop as a whole. The node's patch is
+// the iterations' patches applied in order.
+export function loopNode<T, const Id extends string = string, const Dep extends string = string>(
+  options: LoopNodeOptions<T, Id, Dep>
+): DagNode<T> & { id: Id; dependsOn?: Dep[] } {
+  const { id, body, maxIterations, delayMs = 0 } = options;
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new Error(`${id}: maxIterations must be a positive integer, got ${maxIterations}`);
+  }
+
+  return {
+    id,
+    dependsOn: options.dependsOn,
+    config: options.config,
+    async execute(ctx, deps, signal, run) {
+      const iterations: DagLoopIterationMetrics[] = [];
+      let current = ctx;
+      let patch: Partial<T> = {};
+      let output: DagNodeOutput<unknown, Partial<T>> | undefined;
+
+      try {
+        for (let iteration = 1; iteration <= maxIterations; iteration++) {
+          if (iteration > 1 && delayMs) {
+            await wait(delayMs, signal);
+          }
+
+          const annotations: DagNodeAnnotations = {};
+          const start = Date.now();
+          try {
+            const result = await body.execute(current, deps, signal, {
+              ...run,
+              nodeId: `${run.nodeId}[${iteration}]`,
+              annotate: fields => Object.assign(annotations, fields),
+            });
+            output = result instanceof DagNodeOutput ? result : undefined;
+            const step = (output ? output.patch : result) as Partial<T> | undefined;
+            current = { ...current, ...step };
+            patch = { ...patch, ...step };
+            iterations.push({
+              ...annotations,
+              iteration,
+              status: "success",
+              durationMs: Date.now() - start,
+            });
+          } catch (err) {
+            iterations.push({
+              ...annotations,
+              iteration,
+              status: signal.aborted ? "cancelled" : "failed",
+              durationMs: Date.now() - start,
+              error: (err as Error).message,
+            });
+            throw err;
+          }
+
+          if (await options.until(current, iteration)) {
+            return output ? new DagNodeOutput(output.value, patch) : patch;
+          }
+        }
+      } finally {
+        run.annotate({ iterations });
+      }
+
+      throw new Error(`${id} did not finish after ${maxIterations} iterations`);
+    },
+  };
+}
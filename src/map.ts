@@ -0,0 +1,88 @@
+import type { DagNode, DagNodeConfig, DagNodeRunDeps, DagMapItemMetrics } from "./index";
+
+export interface MapNodeOptions<T, Item, R, Id extends string = string, Dep extends string = string> {
+  id: Id;
+  dependsOn?: Dep[];
+  config?: DagNodeConfig;
+  // Maximum number of items in flight at once (default: all of them).
+  concurrency?: number;
+  items(ctx: Readonly<T>): readonly Item[];
+  execute(
+    item: Item,
+    index: number,
+    ctx: Readonly<T>,
+    deps: DagNodeRunDeps,
+    signal: AbortSignal
+  ): Promise<R>;
+  reduce(results: R[], ctx: Readonly<T>): Partial<T>;
+}
+
+// Expands into one execution per item selected from the context when the
+// node runs, so the fan-out width does not have to be known at plan time.
+// The first failing item aborts the others and fails the node; per-item
+// outcomes are recorded under the node's `items` metrics either way.
+export function mapNode<T, Item, R, const Id extends string = string, const Dep extends string = string>(
+  options: MapNodeOptions<T, Item, R, Id, Dep>
+): DagNode<T> & { id: Id; dependsOn?: Dep[] } {
+  const limit = options.concurrency ?? Infinity;
+  if (limit !== Infinity && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error(`${options.id}: concurrency must be a positive integer, got ${limit}`);
+  }
+
+  return {
+    id: options.id,
+    dependsOn: options.dependsOn,
+    config: options.config,
+    async execute(ctx, deps, signal, run) {
+      const items = options.items(ctx);
+      const results = new Array<R>(items.length);
+      const metrics: DagMapItemMetrics[] = items.map((_, index) => ({
+        index,
+        status: "cancelled",
+        durationMs: 0,
+      }));
+
+      const controller = new AbortController();
+      const onAbort = () => controller.abort(signal.reason);
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+
+      let next = 0;
+      let failure: { err: unknown } | undefined;
+      const worker = async () => {
+        while (next < items.length && !controller.signal.aborted) {
+          const index = next++;
+          const start = Date.now();
+          try {
+            results[index] = await options.execute(items[index], index, ctx, deps, controller.signal);
+            metrics[index] = { index, status: "success", durationMs: Date.now() - start };
+          } catch (err) {
+            metrics[index] = {
+              index,
+              status: controller.signal.aborted ? "cancelled" : "failed",
+              durationMs: Date.now() - start,
+              error: (err as Error).message,
+            };
+            failure ??= { err };
+            controller.abort(err);
+          }
+        }
+      };
+
+      try {
+        await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+      } finally {
+        signal.removeEventListener("abort", onAbort);
+        run.annotate({ items: metrics });
+      }
+
+      if (failure) {
+        throw failure.err;
+      }
+      return options.reduce(results, ctx);
+    },
+  };
+}
@@ -0,0 +1,97 @@
+export class DagMutationError extends Error {
+  constructor(
+    public readonly nodeId: string,
+    public readonly path: string
+  ) {
+    super(`Node ${nodeId} attempted to mutate context at ${path}`);
+    this.name = "DagMutationError";
+  }
+}
+
+// Maps every read-only view back to the object it wraps.
+const viewTargets = new WeakMap<object, object>();
+
+function isContainer(value: unknown): value is object {
+  if (typeof value !== "object" || value === null) return false;
+  if (Array.isArray(value)) return true;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function childPath(path: string, key: string | symbol, parent: object) {
+  if (Array.isArray(parent) && typeof key === "string" && /^\d+$/.test(key)) {
+    return `${path}[${key}]`;
+  }
+  return `${path}.${String(key)}`;
+}
+
+// Returns a deep read-only view of `value` whose write traps throw a
+// DagMutationError naming the node and the property path. The proxy wraps
+// an empty shadow target instead of `value` itself, so views also work over
+// frozen objects, whose get results proxies could otherwise not replace.
+export function readonlyView<V>(
+  value: V,
+  nodeId: string,
+  path = "ctx",
+  views = new WeakMap<object, object>()
+): V {
+  if (!isContainer(value) || viewTargets.has(value)) return value;
+
+  const cached = views.get(value);
+  if (cached) return cached as V;
+
+  const reject = (key?: string | symbol): never => {
+    throw new DagMutationError(nodeId, key === undefined ? path : childPath(path, key, value));
+  };
+  const shadow = Array.isArray(value) ? [] : Object.create(Object.getPrototypeOf(value));
+
+  const view = new Proxy(shadow, {
+    get: (_, key) => readonlyView(Reflect.get(value, key), nodeId, childPath(path, key, value), views),
+    has: (_, key) => Reflect.has(value, key),
+    ownKeys: () => Reflect.ownKeys(value),
+    getOwnPropertyDescriptor: (_, key) => {
+      const desc = Reflect.getOwnPropertyDescriptor(value, key);
+      if (!desc) return undefined;
+      // An array's length is non-configurable on the shadow target too, so
+      // it has to be reported as such; everything else is reported as
+      // configurable because the shadow does not hold it.
+      if (Array.isArray(value) && key === "length") {
+        return { ...desc, writable: true, configurable: false };
+      }
+      if ("value" in desc) {
+        desc.value = readonlyView(desc.value, nodeId, childPath(path, key, value), views);
+      }
+      return { ...desc, configurable: true };
+    },
+    getPrototypeOf: () => Object.getPrototypeOf(value),
+    set: (_, key) => reject(key),
+    deleteProperty: (_, key) => reject(key),
+    defineProperty: (_, key) => reject(key),
+    setPrototypeOf: () => reject(),
+    preventExtensions: () => reject(),
+  });
+
+  viewTargets.set(view, value);
+  views.set(value, view);
+  return view as V;
+}
+
+// Replaces views that a node copied into its patch (e.g. `[...ctx.items]`)
+// with the objects they wrap, so the patch can be cloned and merged.
+export function unwrapViews<V>(value: V): V {
+  if (typeof value !== "object" || value === null) return value;
+
+  const target = viewTargets.get(value);
+  if (target) return target as V;
+  if (!isContainer(value)) return value;
+
+  let copy: any;
+  for (const [key, child] of Object.entries(value)) {
+    const unwrapped = unwrapViews(child);
+    if (unwrapped !== child) {
+      copy ??= Array.isArray(value) ? [...value] : { ...value };
+      copy[key] = unwrapped;
+    }
+  }
+  return copy ?? value;
+}
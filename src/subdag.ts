@@ -0,0 +1,35 @@
+import type { DagEngine, DagNode, DagNodeConfig } from "./index";
+
+export interface SubDagOptions<T, U, Id extends string = string, Dep extends string = string> {
+  id: Id;
+  engine: DagEngine<U>;
+  dependsOn?: Dep[];
+  config?: DagNodeConfig;
+  input(ctx: Readonly<T>): U;
+  output(child: U, ctx: Readonly<T>): Partial<T>;
+}
+
+// Wraps a child engine as a node of a parent engine. The node's signal is
+// passed to the child run, so parent timeouts and cancellation stop the
+// child too, and the child's metrics are nested under the node's metrics.
+export function subDag<T, U, const Id extends string = string, const Dep extends string = string>(
+  options: SubDagOptions<T, U, Id, Dep>
+): DagNode<T> & { id: Id; dependsOn?: Dep[] } {
+  return {
+    id: options.id,
+    dependsOn: options.dependsOn,
+    config: options.config,
+    async execute(ctx, deps, signal, run) {
+      const result = await options.engine.execute(options.input(ctx), {
+        runId: `${run.runId}/${run.nodeId}#${run.attempt}`,
+        signal,
+      });
+      run.annotate({ child: result.metrics });
+
+      if (!result.success) {
+        throw result.error;
+      }
+      return options.output(result.context, ctx);
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import type { DagEngine, DagMetrics, DagNodeMetrics, DagNodeStatus } from "./index";
+
+export interface GraphExportOptions {
+  direction?: "TB" | "LR";
+  metrics?: DagMetrics;
+}
+
+const statusColors: Record<DagNodeStatus, { fill: string; stroke: string }> = {
+  success: { fill: "#d4edda", stroke: "#28a745" },
+  failed: { fill: "#f8d7da", stroke: "#dc3545" },
+  skipped: { fill: "#e2e3e5", stroke: "#6c757d" },
+  blocked: { fill: "#fff3cd", stroke: "#ffc107" },
+  cancelled: { fill: "#e0cffc", stroke: "#6f42c1" },
+  "not-taken": { fill: "#f8f9fa", stroke: "#adb5bd" },
+};
+
+function labelLines(id: string, m: DagNodeMetrics | undefined): string[] {
+  if (!m) return [id];
+  const attempts = `${m.attempts} attempt${m.attempts === 1 ? "" : "s"}`;
+  return [id, `${m.status} · ${m.durationMs}ms · ${attempts}`];
+}
+
+// Nodes are emitted in plan order so diagrams of the same graph diff cleanly.
+function graphOf<T>(engine: DagEngine<T>) {
+  const byId = new Map(engine.getNodes().map(n => [n.id, n]));
+  return engine.plan().order.map(id => byId.get(id)!);
+}
+
+export function toMermaid<T>(
+  engine: DagEngine<T>,
+  options: GraphExportOptions = {}
+): string {
+  const nodes = graphOf(engine);
+  const key = new Map(nodes.map((n, i) => [n.id, `n${i}`]));
+  const escape = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = [`flowchart ${options.direction === "LR" ? "LR" : "TD"}`];
+
+  for (const node of nodes) {
+    const label = labelLines(node.id, options.metrics?.nodes[node.id]).map(escape).join("<br/>");
+    lines.push(`  ${key.get(node.id)}["${label}"]`);
+  }
+  for (const node of nodes) {
+    for (const dep of node.dependsOn ?? []) {
+      lines.push(`  ${key.get(dep)} --> ${key.get(node.id)}`);
+    }
+  }
+
+  if (options.metrics) {
+    // Mermaid class names cannot contain hyphens ("not-taken").
+    const className = (status: DagNodeStatus) => status.replace("-", "_");
+    const used = new Set<DagNodeStatus>();
+    for (const node of nodes) {
+      const status = options.metrics.nodes[node.id]?.status;
+      if (!status) continue;
+      used.add(status);
+      lines.push(`  class ${key.get(node.id)} ${className(status)}`);
+    }
+    for (const status of used) {
+      const { fill, stroke } = statusColors[status];
+      lines.push(`  classDef ${className(status)} fill:${fill},stroke:${stroke}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function toDot<T>(
+  engine: DagEngine<T>,
+  options: GraphExportOptions = {}
+): string {
+  const nodes = graphOf(engine);
+  const quote = (text: string) =>
+    `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+  const lines = [
+    "digraph dag {",
+    `  rankdir=${options.direction ?? "TB"};`,
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff"];',
+  ];
+
+  for (const node of nodes) {
+    const m = options.metrics?.nodes[node.id];
+    const attrs = [`label=${quote(labelLines(node.id, m).join("\n"))}`];
+    if (m) {
+      const { fill, stroke } = statusColors[m.status];
+      attrs.push(`fillcolor="${fill}"`, `color="${stroke}"`);
+    }
+    lines.push(`  ${quote(node.id)} [${attrs.join(", ")}];`);
+  }
+  for (const node of nodes) {
+    for (const dep of node.dependsOn ?? []) {
+      lines.push(`  ${quote(dep)} -> ${quote(node.id)};`);
+    }
+  }
+  lines.push("}");
+
+  return lines.join("\n") + "\n";
+}
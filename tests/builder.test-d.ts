@@ -0,0 +1,90 @@
+import { describe, expectTypeOf, test } from 'vitest';
+import { createDag, DagEngine, loopNode, mapNode, output, subDag, type DagNode } from '../src';
+
+type Ctx = { total: number; files: string[] };
+
+const deps = { logger: { info: () => {}, warn: () => {}, error: () => {} } };
+const child = new DagEngine<{ x: number }>(deps);
+const body: DagNode<Ctx> = { id: 'body', execute: async () => ({}) };
+
+describe('createDag', () => {
+  test('should only accept dependencies added earlier in the chain', () => {
+    const engine = createDag<Ctx>(deps).addNode({ id: 'a', execute: async () => output(1) });
+
+    engine.addNode({ id: 'b', dependsOn: ['a'], execute: async () => ({}) });
+    engine.addNode({
+      id: 'b',
+      // @ts-expect-error 'missing' has not been added
+      dependsOn: ['missing'],
+      execute: async () => ({}),
+    });
+  });
+
+  test('should accept nodes built by the helpers', () => {
+    const engine = createDag<Ctx>(deps)
+      .addNode({ id: 'a', execute: async () => output(1) })
+      .addNode(loopNode({ id: 'loop', dependsOn: ['a'], body, until: () => true, maxIterations: 2 }))
+      .addNode(
+        subDag({
+          id: 'child',
+          dependsOn: ['a', 'loop'],
+          engine: child,
+          input: () => ({ x: 1 }),
+          output: () => ({}),
+        })
+      )
+      .addNode(
+        mapNode({
+          id: 'map',
+          dependsOn: ['child'],
+          items: (ctx) => ctx.files,
+          execute: async (file: string) => file.length,
+          reduce: (sizes) => ({ total: sizes.length }),
+        })
+      )
+      .addNode({
+        id: 'sum',
+        dependsOn: ['a', 'map'],
+        execute: async (_ctx, deps) => {
+          expectTypeOf(deps.outputs.a).toEqualTypeOf<number | undefined>();
+          return {};
+        },
+      });
+
+    // @ts-expect-error 'nope' has not been added
+    engine.addNode(loopNode({ id: 'again', dependsOn: ['nope'], body, until: () => true, maxIterations: 2 }));
+  });
+
+  test('should accept helpers called with explicit type arguments', () => {
+    createDag<Ctx>(deps)
+      .addNode({ id: 'a', execute: async () => output(1) })
+      .addNode(
+        mapNode<Ctx, string, number>({
+          id: 'map',
+          dependsOn: ['a'],
+          items: (ctx) => ctx.files,
+          execute: async () => 1,
+          reduce: () => ({}),
+        })
+      );
+  });
+});
+
+describe('DagEngine', () => {
+  test('should accept nodes typed for a specific context', () => {
+    const node: DagNode<{ value: number }> = {
+      id: 'a',
+      reads: ['value'],
+      writes: ['value'],
+      execute: async () => ({ value: 1 }),
+    };
+
+    new DagEngine<unknown>(deps).addNode(node);
+  });
+
+  test('should accept expression-bodied event handlers', () => {
+    const seen: string[] = [];
+
+    new DagEngine<Ctx>(deps).on('nodeStart', (e) => seen.push(e.nodeId));
+  });
+});
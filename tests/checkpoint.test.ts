@@ -0,0 +1,91 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { DagCheckpoint, FileCheckpointStore, MemoryCheckpointStore } from '../src';
+
+type Ctx = { createdAt: Date; tags: Map<string, number> };
+
+function checkpoint(runId: string): DagCheckpoint<Ctx> {
+  return {
+    runId,
+    context: { createdAt: new Date(0), tags: new Map([['a', 1]]) },
+    completed: ['node1'],
+    failed: [],
+    blocked: ['node2'],
+    metrics: {
+      startedAt: 1,
+      totalNodes: 2,
+      successfulNodes: 1,
+      failedNodes: 0,
+      skippedNodes: 0,
+      blockedNodes: 1,
+      notTakenNodes: 0,
+      cancelledNodes: 0,
+      nodes: {
+        node1: { attempts: 1, status: 'success', durationMs: 3 },
+        node2: { attempts: 0, status: 'blocked', durationMs: 0 },
+      },
+    },
+  };
+}
+
+describe('MemoryCheckpointStore', () => {
+  test('should round-trip a checkpoint without sharing references', async () => {
+    const store = new MemoryCheckpointStore();
+    const saved = checkpoint('run-1');
+
+    await store.save(saved);
+    saved.completed.push('mutated');
+    const loaded = await store.load<Ctx>('run-1');
+
+    expect(loaded?.completed).toEqual(['node1']);
+    expect(loaded?.context.tags.get('a')).toBe(1);
+  });
+
+  test('should delete checkpoints', async () => {
+    const store = new MemoryCheckpointStore();
+    await store.save(checkpoint('run-1'));
+    await store.delete('run-1');
+
+    expect(await store.load('run-1')).toBeUndefined();
+  });
+});
+
+describe('FileCheckpointStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'dagflow-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should round-trip structured-cloneable contexts', async () => {
+    const store = new FileCheckpointStore(join(dir, 'nested'));
+
+    await store.save(checkpoint('run/1'));
+    const loaded = await store.load<Ctx>('run/1');
+
+    expect(loaded).toEqual(checkpoint('run/1'));
+    expect(loaded?.context.createdAt).toBeInstanceOf(Date);
+    expect(await readdir(join(dir, 'nested'))).toEqual(['run%2F1.ckpt']);
+  });
+
+  test('should return undefined for unknown runs', async () => {
+    const store = new FileCheckpointStore(dir);
+
+    expect(await store.load('missing')).toBeUndefined();
+  });
+
+  test('should delete checkpoints', async () => {
+    const store = new FileCheckpointStore(dir);
+    await store.save(checkpoint('run-1'));
+    await store.delete('run-1');
+    await store.delete('run-1');
+
+    expect(await store.load('run-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,223 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, test, vi } from 'vitest';
+import {
+  DagDefinitionError,
+  DagEngine,
+  DagHandlerRegistry,
+  loadDagDefinition,
+  loadDagDefinitionFile,
+  parseDagDefinition,
+} from '../src';
+
+type Ctx = { value: number };
+
+const deps = { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } };
+
+const registry: DagHandlerRegistry<Ctx> = {
+  seed: { execute: async () => ({ value: 1 }) },
+  double: {
+    validate: (ctx) => ctx.value > 0,
+    execute: async (ctx) => ({ value: ctx.value * 2 }),
+  },
+};
+
+function issuesOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(DagDefinitionError);
+    return (err as DagDefinitionError).issues;
+  }
+  throw new Error('expected a DagDefinitionError');
+}
+
+describe('parseDagDefinition', () => {
+  test('should parse YAML definitions', () => {
+    const definition = parseDagDefinition(`
+nodes:
+  - id: fetch
+    handler: seed
+    config:
+      timeoutMs: 100
+      maxRetries: 2
+      onError: skip-dependents
+  - id: transform
+    handler: double
+    dependsOn: [fetch]
+`);
+
+    expect(definition).toEqual({
+      nodes: [
+        {
+          id: 'fetch',
+          handler: 'seed',
+          config: { timeoutMs: 100, maxRetries: 2, onError: 'skip-dependents' },
+        },
+        { id: 'transform', handler: 'double', dependsOn: ['fetch'] },
+      ],
+    });
+  });
+
+  test('should parse JSON definitions', () => {
+    const definition = parseDagDefinition(
+      JSON.stringify({
+        nodes: [{ id: 'fetch', handler: 'seed', writes: ['value'], config: { concurrencyTags: ['db'] } }],
+      })
+    );
+
+    expect(definition.nodes[0].config?.concurrencyTags).toEqual(['db']);
+    expect(definition.nodes[0].writes).toEqual(['value']);
+  });
+
+  test('should report schema violations with their location', () => {
+    const issues = issuesOf(() =>
+      parseDagDefinition(
+        ['nodes:', '  - id: fetch', '    handler: seed', '    config:', '      maxRetries: -1', '      retries: 3', '  - handler: seed'].join('\n'),
+        'dag.yaml'
+      )
+    );
+
+    expect(issues).toEqual([
+      { path: 'nodes[0].config.maxRetries', message: 'expected a non-negative integer', line: 5, column: 19 },
+      { path: 'nodes[0].config.retries', message: 'unknown field', line: 6, column: 7 },
+      { path: 'nodes[1].id', message: 'required field is missing', line: 7, column: 5 },
+    ]);
+  });
+
+  test('should report trigger counts that addNode would reject', () => {
+    const issues = issuesOf(() =>
+      parseDagDefinition(
+        [
+          'nodes:',
+          '  - id: a',
+          '    handler: seed',
+          '    config: { trigger: first-n, triggerCount: 0 }',
+          '  - id: b',
+          '    handler: seed',
+          '    config: { trigger: first-n }',
+        ].join('\n')
+      )
+    );
+
+    expect(issues).toEqual([
+      { path: 'nodes[0].config.triggerCount', message: 'expected a positive integer', line: 4, column: 47 },
+      { path: 'nodes[1].config.trigger', message: 'trigger "first-n" requires triggerCount', line: 7, column: 24 },
+    ]);
+  });
+
+  test('should include the source and location in the error message', () => {
+    expect(() => parseDagDefinition('{"nodes": [{"id": 1, "handler": "seed"}]}', 'dag.json')).toThrow(
+      'dag.json:1:19 nodes[0].id: expected a non-empty string'
+    );
+  });
+
+  test('should report syntax errors', () => {
+    const issues = issuesOf(() => parseDagDefinition('nodes: [\n  { id: a\n'));
+
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues[0].line).toBeGreaterThan(1);
+  });
+
+  test('should reject empty documents', () => {
+    expect(issuesOf(() => parseDagDefinition(''))).toEqual([
+      { path: '', message: 'expected a mapping', line: 1, column: 1 },
+    ]);
+  });
+});
+
+describe('loadDagDefinition', () => {
+  test('should build a runnable engine from a definition', async () => {
+    const engine = loadDagDefinition(
+      new DagEngine<Ctx>(deps),
+      `
+nodes:
+  - { id: fetch, handler: seed }
+  - { id: transform, handler: double, dependsOn: [fetch] }
+`,
+      registry
+    );
+
+    const result = await engine.execute({ value: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.context.value).toBe(2);
+    expect(engine.plan().batches).toEqual([['fetch'], ['transform']]);
+  });
+
+  test('should report unknown handlers, duplicates and missing dependencies', () => {
+    const issues = issuesOf(() =>
+      loadDagDefinition(
+        new DagEngine<Ctx>(deps),
+        [
+          'nodes:',
+          '  - id: fetch',
+          '    handler: sed',
+          '  - id: fetch',
+          '    handler: seed',
+          '    dependsOn: [nope]',
+        ].join('\n'),
+        registry
+      )
+    );
+
+    expect(issues).toEqual([
+      { path: 'nodes[0].handler', message: 'unknown handler "sed"', line: 3, column: 14 },
+      { path: 'nodes[1].id', message: 'duplicate node id "fetch"', line: 4, column: 9 },
+      { path: 'nodes[1].dependsOn[0]', message: 'depends on missing node "nope"', line: 6, column: 17 },
+    ]);
+  });
+
+  test('should let definition nodes reference nodes added in code', async () => {
+    const engine = new DagEngine<Ctx>(deps)
+      .addNode({ id: 'fetch', execute: async () => ({ value: 1 }) })
+      .addNode({ id: 'backup', execute: async () => ({ value: -1 }) });
+
+    loadDagDefinition(
+      engine,
+      'nodes:\n  - { id: transform, handler: double, dependsOn: [fetch], fallback: backup }',
+      registry
+    );
+    const result = await engine.execute({ value: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.context.value).toBe(2);
+  });
+
+  test('should report unknown circuit breakers without adding any node', () => {
+    const engine = new DagEngine<Ctx>(deps, undefined, {
+      circuitBreakers: { api: { failureThreshold: 3, resetTimeoutMs: 1000 } },
+    });
+    const issues = issuesOf(() =>
+      loadDagDefinition(
+        engine,
+        [
+          'nodes:',
+          '  - { id: a, handler: seed, config: { circuitBreaker: api } }',
+          '  - { id: b, handler: seed, config: { circuitBreaker: apl } }',
+        ].join('\n'),
+        registry
+      )
+    );
+
+    expect(issues).toEqual([
+      { path: 'nodes[1].config.circuitBreaker', message: 'unknown circuit breaker "apl"', line: 3, column: 55 },
+    ]);
+    expect(engine.getNodes()).toEqual([]);
+  });
+
+  test('should load definitions from a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'dagflow-'));
+    const file = join(dir, 'dag.yaml');
+    try {
+      await writeFile(file, 'nodes:\n  - id: fetch\n    handler: missing\n');
+
+      await expect(
+        loadDagDefinitionFile(new DagEngine<Ctx>(deps), file, registry)
+      ).rejects.toThrow(`${file}:3:14 nodes[0].handler: unknown handler "missing"`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,10 +1,22 @@
 import { expect, test, describe, beforeEach, vi } from 'vitest';
 import {
+  createDag,
   DagEngine,
+  DagCancelledError,
+  DagCircuitOpenError,
+  DagConflictError,
+  DagCycleError,
+  DagExecutionError,
+  DagHookTimeoutError,
+  DagMutationError,
+  DagNodeFailedError,
+  DagNodeTimeoutError,
   DagNode,
   Logger,
   DagNodeDeps,
   DagResult,
+  MemoryCheckpointStore,
+  output,
 } from '../src';
 
 describe('DagEngine', () => {
@@ -594,6 +606,30 @@ describe('DagEngine', () => {
       expect(receivedSignal?.aborted).toBe(false);
     });
 
+    test('should pass run info to execute and record annotations', async () => {
+      const engine = new DagEngine(deps);
+      const runs: { runId: string; nodeId: string; attempt: number }[] = [];
+      const node: DagNode<{ value: number }> = {
+        id: 'node1',
+        config: { maxRetries: 1, retryDelayMs: 1 },
+        execute: async (ctx, deps, signal, run) => {
+          runs.push({ runId: run.runId, nodeId: run.nodeId, attempt: run.attempt });
+          run.annotate({ child: undefined });
+          if (run.attempt === 1) throw new Error('Failed');
+          return { value: 1 };
+        },
+      };
+
+      engine.addNode(node);
+      const result = await engine.execute({ value: 0 }, { runId: 'run-1' });
+
+      expect(runs).toEqual([
+        { runId: 'run-1', nodeId: 'node1', attempt: 1 },
+        { runId: 'run-1', nodeId: 'node1', attempt: 2 },
+      ]);
+      expect(result.metrics.nodes.node1).toHaveProperty('child', undefined);
+    });
+
     test('should abort signal on timeout', async () => {
       const engine = new DagEngine(deps);
       let receivedSignal: AbortSignal | undefined;
@@ -826,4 +862,2076 @@ describe('DagEngine', () => {
       expect(result.metrics.nodes.node4.status).toBe('blocked');
     });
   });
+
+  describe('ready-queue scheduler', () => {
+    test('should start a node as soon as its own dependencies settle', async () => {
+      const engine = new DagEngine<{ a: number; b: number; c: number }>(deps, undefined, {
+        scheduler: 'ready-queue',
+      });
+      const executionOrder: string[] = [];
+
+      engine
+        .addNode({
+          id: 'slow',
+          execute: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            executionOrder.push('slow');
+            return { a: 1 };
+          },
+        })
+        .addNode({
+          id: 'fast',
+          execute: async () => {
+            executionOrder.push('fast');
+            return { b: 2 };
+          },
+        })
+        .addNode({
+          id: 'after-fast',
+          dependsOn: ['fast'],
+          execute: async (ctx) => {
+            executionOrder.push('after-fast');
+            return { c: ctx.b + 1 };
+          },
+        });
+
+      const result = await engine.execute({ a: 0, b: 0, c: 0 });
+
+      expect(result.success).toBe(true);
+      expect(executionOrder).toEqual(['fast', 'after-fast', 'slow']);
+      expect(result.context).toEqual({ a: 1, b: 2, c: 3 });
+    });
+
+    test('should keep blocking rules for gated dependents', async () => {
+      const engine = new DagEngine<{ a: number; b: number }>(deps, undefined, {
+        scheduler: 'ready-queue',
+      });
+
+      engine
+        .addNode({
+          id: 'node1',
+          config: { onError: 'skip-dependents' },
+          execute: async () => {
+            throw new Error('Failed');
+          },
+        })
+        .addNode({
+          id: 'node2',
+          dependsOn: ['node1'],
+          execute: async () => ({ a: 1 }),
+        })
+        .addNode({
+          id: 'node3',
+          execute: async () => ({ b: 2 }),
+        });
+
+      const result = await engine.execute({ a: 0, b: 0 });
+
+      expect(result.success).toBe(true);
+      expect(result.context).toEqual({ a: 0, b: 2 });
+      expect(result.metrics.nodes.node2.status).toBe('blocked');
+      expect(result.metrics.blockedNodes).toBe(1);
+    });
+
+    test('should stop scheduling after a failure but let in-flight nodes settle', async () => {
+      const engine = new DagEngine<{ a: number; b: number }>(deps, undefined, {
+        scheduler: 'ready-queue',
+      });
+      let slowFinished = false;
+      let dependentRan = false;
+
+      engine
+        .addNode({
+          id: 'failing',
+          execute: async () => {
+            throw new Error('Boom');
+          },
+        })
+        .addNode({
+          id: 'slow',
+          execute: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 30));
+            slowFinished = true;
+            return { a: 1 };
+          },
+        })
+        .addNode({
+          id: 'dependent',
+          dependsOn: ['slow'],
+          execute: async () => {
+            dependentRan = true;
+            return { b: 1 };
+          },
+        });
+
+      const result = await engine.execute({ a: 0, b: 0 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Boom');
+      expect(slowFinished).toBe(true);
+      expect(dependentRan).toBe(false);
+    });
+  });
+
+  describe('concurrency limits', () => {
+    function trackedNode(
+      id: string,
+      tracker: { active: number; peak: number },
+      config?: DagNode<{ value: number }>['config']
+    ): DagNode<{ value: number }> {
+      return {
+        id,
+        config,
+        execute: async () => {
+          tracker.active++;
+          tracker.peak = Math.max(tracker.peak, tracker.active);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          tracker.active--;
+          return {};
+        },
+      };
+    }
+
+    test('should cap the number of concurrently running nodes', async () => {
+      const engine = new DagEngine<{ value: number }>(deps, undefined, {
+        maxConcurrency: 2,
+      });
+      const tracker = { active: 0, peak: 0 };
+      for (let i = 0; i < 5; i++) {
+        engine.addNode(trackedNode(`node${i}`, tracker));
+      }
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.success).toBe(true);
+      expect(tracker.peak).toBe(2);
+      expect(result.metrics.nodes.node4.waitMs).toBeGreaterThanOrEqual(15);
+      expect(result.metrics.nodes.node4.durationMs).toBeLessThan(
+        result.metrics.nodes.node4.waitMs!
+      );
+    });
+
+    test('should cap nodes per concurrency tag', async () => {
+      const engine = new DagEngine<{ value: number }>(deps, undefined, {
+        concurrency: { db: 1 },
+      });
+      const db = { active: 0, peak: 0 };
+      const other = { active: 0, peak: 0 };
+      engine
+        .addNode(trackedNode('db1', db, { concurrencyTags: ['db'] }))
+        .addNode(trackedNode('db2', db, { concurrencyTags: ['db'] }))
+        .addNode(trackedNode('other1', other))
+        .addNode(trackedNode('other2', other));
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.success).toBe(true);
+      expect(db.peak).toBe(1);
+      expect(other.peak).toBe(2);
+    });
+
+    test('should ignore tags without a configured limit', async () => {
+      const engine = new DagEngine<{ value: number }>(deps);
+      const tracker = { active: 0, peak: 0 };
+      engine
+        .addNode(trackedNode('node1', tracker, { concurrencyTags: ['llm'] }))
+        .addNode(trackedNode('node2', tracker, { concurrencyTags: ['llm'] }));
+
+      await engine.execute({ value: 0 });
+
+      expect(tracker.peak).toBe(2);
+    });
+
+    test('should reject invalid limits', () => {
+      expect(() => new DagEngine(deps, undefined, { maxConcurrency: 0 })).toThrow(
+        'maxConcurrency must be a positive integer, got 0'
+      );
+      expect(() => new DagEngine(deps, undefined, { concurrency: { db: 1.5 } })).toThrow(
+        'concurrency.db must be a positive integer, got 1.5'
+      );
+    });
+  });
+
+  describe('cancellation', () => {
+    function buildEngine(seen: { signal?: AbortSignal; dependentRan: boolean }) {
+      const engine = new DagEngine<{ a: number; b: number }>(deps);
+      engine
+        .addNode({
+          id: 'slow',
+          execute: async (ctx, deps, signal) => {
+            seen.signal = signal;
+            await new Promise((resolve) => setTimeout(resolve, 200));
+            return { a: 1 };
+          },
+        })
+        .addNode({
+          id: 'dependent',
+          dependsOn: ['slow'],
+          execute: async () => {
+            seen.dependentRan = true;
+            return { b: 1 };
+          },
+        });
+      return engine;
+    }
+
+    test('should cancel the run when the parent signal aborts', async () => {
+      const seen: { signal?: AbortSignal; dependentRan: boolean } = { dependentRan: false };
+      const engine = buildEngine(seen);
+      const controller = new AbortController();
+
+      setTimeout(() => controller.abort(new Error('client disconnected')), 20);
+      const started = Date.now();
+      const result = await engine.execute({ a: 0, b: 0 }, { signal: controller.signal });
+
+      expect(Date.now() - started).toBeLessThan(150);
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(DagCancelledError);
+      expect((result.error?.cause as Error).message).toBe('client disconnected');
+      expect(seen.signal?.aborted).toBe(true);
+      expect(seen.dependentRan).toBe(false);
+      expect(result.metrics.nodes.slow.status).toBe('cancelled');
+      expect(result.metrics.nodes.dependent.status).toBe('cancelled');
+      expect(result.metrics.cancelledNodes).toBe(2);
+    });
+
+    test('should cancel the run when the deadline passes', async () => {
+      const seen: { signal?: AbortSignal; dependentRan: boolean } = { dependentRan: false };
+      const engine = buildEngine(seen);
+
+      const result = await engine.execute({ a: 0, b: 0 }, { deadlineMs: 20 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Run deadline of 20ms exceeded');
+      expect(seen.signal?.aborted).toBe(true);
+      expect(result.metrics.nodes.slow.status).toBe('cancelled');
+    });
+
+    test('should not start any node when the signal is already aborted', async () => {
+      const seen: { signal?: AbortSignal; dependentRan: boolean } = { dependentRan: false };
+      const engine = buildEngine(seen);
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await engine.execute({ a: 0, b: 0 }, { signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(seen.signal).toBeUndefined();
+      expect(result.metrics.cancelledNodes).toBe(2);
+    });
+
+    test('should stop retrying once the run is cancelled', async () => {
+      const engine = new DagEngine<{ value: number }>(deps, undefined, {
+        scheduler: 'ready-queue',
+      });
+      let attempts = 0;
+      engine.addNode({
+        id: 'node1',
+        config: { maxRetries: 5, retryDelayMs: 50 },
+        execute: async () => {
+          attempts++;
+          throw new Error('Failed');
+        },
+      });
+
+      const result = await engine.execute({ value: 0 }, { deadlineMs: 20 });
+
+      expect(result.success).toBe(false);
+      expect(attempts).toBe(1);
+      expect(result.metrics.nodes.node1.status).toBe('cancelled');
+      expect(result.metrics.nodes.node1.attempts).toBe(1);
+    });
+
+    test('should not record the attempt cut short by cancellation', async () => {
+      let attempts = 0;
+      const engine = new DagEngine<{ value: number }>(deps).addNode({
+        id: 'node1',
+        config: { maxRetries: 5, retryDelayMs: 1 },
+        execute: async (ctx, deps, signal) => {
+          if (++attempts === 1) throw new Error('Failed');
+          await new Promise((resolve) => setTimeout(resolve, 200));
+          signal?.throwIfAborted();
+          return { value: 1 };
+        },
+      });
+
+      const result = await engine.execute({ value: 0 }, { deadlineMs: 20 });
+
+      expect(attempts).toBe(2);
+      expect(result.metrics.nodes.node1.status).toBe('cancelled');
+      expect(result.metrics.nodes.node1.attemptErrors).toEqual([
+        { attempt: 1, error: 'Failed', delayMs: 1 },
+      ]);
+    });
+
+    test('should give up waiting for a concurrency slot when cancelled', async () => {
+      const engine = new DagEngine<{ value: number }>(deps, undefined, {
+        maxConcurrency: 1,
+      });
+      let secondStarted = false;
+      engine
+        .addNode({
+          id: 'node1',
+          execute: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            return {};
+          },
+        })
+        .addNode({
+          id: 'node2',
+          execute: async () => {
+            secondStarted = true;
+            return {};
+          },
+        });
+
+      const result = await engine.execute({ value: 0 }, { deadlineMs: 20 });
+      await new Promise((resolve) => setTimeout(resolve, 120));
+
+      expect(result.success).toBe(false);
+      expect(secondStarted).toBe(false);
+      expect(result.metrics.nodes.node2.status).toBe('cancelled');
+    });
+  });
+
+  describe('fail-fast', () => {
+    test('should abort in-flight siblings as soon as a node fails', async () => {
+      const engine = new DagEngine<{ a: number; b: number }>(deps, undefined, {
+        failFast: true,
+      });
+      let siblingSignal: AbortSignal | undefined;
+      let cleanupCalled = false;
+
+      engine
+        .addNode({
+          id: 'failing',
+          execute: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            throw new Error('Boom');
+          },
+        })
+        .addNode({
+          id: 'sibling',
+          execute: async (ctx, deps, signal) => {
+            siblingSignal = signal;
+            await new Promise((resolve) => setTimeout(resolve, 200));
+            return { b: 1 };
+          },
+          cleanup: async () => {
+            cleanupCalled = true;
+          },
+        });
+
+      const started = Date.now();
+      const result = await engine.execute({ a: 0, b: 0 });
+
+      expect(Date.now() - started).toBeLessThan(150);
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Boom');
+      expect(siblingSignal?.aborted).toBe(true);
+      expect(cleanupCalled).toBe(true);
+      expect(result.metrics.nodes.failing.status).toBe('failed');
+      expect(result.metrics.nodes.sibling.status).toBe('cancelled');
+      expect(result.metrics.cancelledNodes).toBe(1);
+    });
+
+    test('should abort siblings before the failing node runs its cleanup', async () => {
+      const engine = new DagEngine<{ a: number; b: number }>(deps, undefined, {
+        failFast: true,
+      });
+      let abortedAfter: number | undefined;
+      const started = Date.now();
+
+      engine
+        .addNode({
+          id: 'failing',
+          execute: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            throw new Error('Boom');
+          },
+          cleanup: () => new Promise((resolve) => setTimeout(resolve, 100)),
+        })
+        .addNode({
+          id: 'sibling',
+          execute: async (ctx, deps, signal) => {
+            signal.addEventListener('abort', () => {
+              abortedAfter = Date.now() - started;
+            });
+            await new Promise((resolve) => setTimeout(resolve, 300));
+            return { b: 1 };
+          },
+        });
+
+      const result = await engine.execute({ a: 0, b: 0 });
+
+      expect(result.error?.message).toBe('Boom');
+      expect(abortedAfter).toBeLessThan(80);
+    });
+
+    test('should only wait a bounded time for cleanup hooks', async () => {
+      const engine = new DagEngine<{ a: number; b: number }>(deps, undefined, {
+        failFast: true,
+        cleanupGraceMs: 20,
+        scheduler: 'ready-queue',
+      });
+
+      engine
+        .addNode({
+          id: 'failing',
+          execute: async () => {
+            throw new Error('Boom');
+          },
+        })
+        .addNode({
+          id: 'sibling',
+          execute: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            return { b: 1 };
+          },
+          cleanup: () => new Promise(() => {}),
+        });
+
+      const started = Date.now();
+      const result = await engine.execute({ a: 0, b: 0 });
+
+      expect(Date.now() - started).toBeLessThan(100);
+      expect(result.error?.message).toBe('Boom');
+      expect(result.metrics.nodes.sibling.status).toBe('cancelled');
+    });
+
+    test('should not abort siblings when the failing node is skipped', async () => {
+      const engine = new DagEngine<{ a: number; b: number }>(deps, undefined, {
+        failFast: true,
+      });
+
+      engine
+        .addNode({
+          id: 'failing',
+          config: { onError: 'skip' },
+          execute: async () => {
+            throw new Error('Boom');
+          },
+        })
+        .addNode({
+          id: 'sibling',
+          execute: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            return { b: 1 };
+          },
+        });
+
+      const result = await engine.execute({ a: 0, b: 0 });
+
+      expect(result.success).toBe(true);
+      expect(result.metrics.nodes.sibling.status).toBe('success');
+    });
+  });
+
+  describe('events', () => {
+    test('should emit lifecycle events in order', async () => {
+      const engine = new DagEngine<{ a: number; b: number }>(deps);
+      const events: string[] = [];
+      let attempts = 0;
+
+      engine
+        .addNode({
+          id: 'flaky',
+          config: { maxRetries: 1, retryDelayMs: 1 },
+          execute: async () => {
+            attempts++;
+            if (attempts === 1) {
+              throw new Error('Flaky');
+            }
+            return { a: 1 };
+          },
+        })
+        .addNode({
+          id: 'gate',
+          dependsOn: ['flaky'],
+          shouldRun: () => false,
+          execute: async () => ({ b: 1 }),
+        })
+        .addNode({
+          id: 'gated',
+          dependsOn: ['gate'],
+          execute: async () => ({ b: 2 }),
+        });
+
+      engine
+        .on('runStart', (e) => events.push(`runStart:${e.totalNodes}`))
+        .on('nodeStart', (e) => events.push(`nodeStart:${e.nodeId}:${e.attempt}`))
+        .on('nodeRetry', (e) =>
+          events.push(`nodeRetry:${e.nodeId}:${e.attempt}:${(e.error as Error).message}`)
+        )
+        .on('nodeSuccess', (e) =>
+          events.push(`nodeSuccess:${e.nodeId}:${JSON.stringify(e.patch)}`)
+        )
+        .on('nodeSkipped', (e) => events.push(`nodeSkipped:${e.nodeId}`))
+        .on('nodeBlocked', (e) => events.push(`nodeBlocked:${e.nodeId}`))
+        .on('runEnd', (result) => events.push(`runEnd:${result.success}`));
+
+      await engine.execute({ a: 0, b: 0 });
+
+      expect(events).toEqual([
+        'runStart:3',
+        'nodeStart:flaky:1',
+        'nodeRetry:flaky:2:Flaky',
+        'nodeSuccess:flaky:{"a":1}',
+        'nodeSkipped:gate',
+        'nodeBlocked:gated',
+        'runEnd:true',
+      ]);
+    });
+
+    test('should emit nodeFailed with the final error', async () => {
+      const engine = new DagEngine<{ value: number }>(deps);
+      const failed = vi.fn();
+
+      engine
+        .addNode({
+          id: 'node1',
+          execute: async () => {
+            throw new Error('Boom');
+          },
+        })
+        .on('nodeFailed', failed);
+
+      await engine.execute({ value: 0 });
+
+      expect(failed).toHaveBeenCalledTimes(1);
+      expect(failed.mock.calls[0][0]).toMatchObject({ nodeId: 'node1', attempt: 1 });
+      expect(failed.mock.calls[0][0].error.message).toBe('Boom');
+    });
+
+    test('should log listener errors without failing the run', async () => {
+      const engine = new DagEngine<{ value: number }>(deps);
+
+      engine
+        .addNode({ id: 'node1', execute: async () => ({ value: 1 }) })
+        .on('nodeSuccess', () => {
+          throw new Error('Listener broke');
+        });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.success).toBe(true);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'DagEngine nodeSuccess listener failed',
+        expect.objectContaining({ error: expect.any(Error) })
+      );
+    });
+
+    test('should stop calling a handler after off', async () => {
+      const engine = new DagEngine<{ value: number }>(deps);
+      const handler = vi.fn();
+
+      engine.addNode({ id: 'node1', execute: async () => ({ value: 1 }) });
+      engine.on('nodeSuccess', handler).off('nodeSuccess', handler);
+      await engine.execute({ value: 0 });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkpointing', () => {
+    type Ctx = { a: number; b: number; c: number };
+
+    function buildEngine(
+      store: MemoryCheckpointStore,
+      calls: Record<string, number>,
+      failB: { value: boolean }
+    ) {
+      const engine = new DagEngine<Ctx>(deps, undefined, { checkpointStore: store });
+      const count = (id: string) => (calls[id] = (calls[id] ?? 0) + 1);
+      engine
+        .addNode({
+          id: 'a',
+          execute: async () => {
+            count('a');
+            return { a: 1 };
+          },
+        })
+        .addNode({
+          id: 'b',
+          dependsOn: ['a'],
+          execute: async (ctx) => {
+            count('b');
+            if (failB.value) {
+              throw new Error('Crashed');
+            }
+            return { b: ctx.a + 1 };
+          },
+        })
+        .addNode({
+          id: 'c',
+          dependsOn: ['b'],
+          execute: async (ctx) => {
+            count('c');
+            return { c: ctx.b + 1 };
+          },
+        });
+      return engine;
+    }
+
+    test('should resume an interrupted run from its last checkpoint', async () => {
+      const store = new MemoryCheckpointStore();
+      const calls: Record<string, number> = {};
+      const failB = { value: true };
+      const engine = buildEngine(store, calls, failB);
+
+      const first = await engine.execute({ a: 0, b: 0, c: 0 }, { runId: 'run-1' });
+      expect(first.success).toBe(false);
+      expect(first.runId).toBe('run-1');
+
+      const checkpoint = await store.load<Ctx>('run-1');
+      expect(checkpoint?.completed).toEqual(['a']);
+      expect(checkpoint?.context).toEqual({ a: 1, b: 0, c: 0 });
+      expect(checkpoint?.patches).toEqual({ a: { a: 1 } });
+
+      failB.value = false;
+      const resumed = await engine.resume('run-1');
+
+      expect(resumed.success).toBe(true);
+      expect(resumed.context).toEqual({ a: 1, b: 2, c: 3 });
+      expect(calls).toEqual({ a: 1, b: 2, c: 1 });
+      expect(resumed.metrics.successfulNodes).toBe(3);
+      expect(resumed.metrics.nodes.a.status).toBe('success');
+      expect(await store.load('run-1')).toBeUndefined();
+    });
+
+    test('should restore blocked and failed nodes on resume', async () => {
+      const store = new MemoryCheckpointStore();
+      await store.save<Ctx>({
+        runId: 'run-2',
+        context: { a: 5, b: 0, c: 0 },
+        completed: [],
+        failed: ['a'],
+        blocked: ['b', 'c'],
+        metrics: {
+          startedAt: 1,
+          totalNodes: 3,
+          successfulNodes: 0,
+          failedNodes: 1,
+          skippedNodes: 0,
+          blockedNodes: 2,
+          notTakenNodes: 0,
+          cancelledNodes: 0,
+          nodes: {
+            a: { attempts: 1, status: 'failed', durationMs: 1, error: 'Failed' },
+            b: { attempts: 0, status: 'blocked', durationMs: 0 },
+            c: { attempts: 0, status: 'blocked', durationMs: 0 },
+          },
+        },
+      });
+      const calls: Record<string, number> = {};
+      const engine = buildEngine(store, calls, { value: false });
+
+      const result = await engine.resume('run-2');
+
+      expect(result.success).toBe(true);
+      expect(calls).toEqual({});
+      expect(result.context).toEqual({ a: 5, b: 0, c: 0 });
+      expect(result.metrics.blockedNodes).toBe(2);
+    });
+
+    test('should resume under the ready-queue scheduler', async () => {
+      const store = new MemoryCheckpointStore();
+      const calls: Record<string, number> = {};
+      const failB = { value: true };
+      const engine = new DagEngine<Ctx>(deps, undefined, {
+        checkpointStore: store,
+        scheduler: 'ready-queue',
+      });
+      engine
+        .addNode({ id: 'a', execute: async () => ({ a: (calls.a = (calls.a ?? 0) + 1) }) })
+        .addNode({
+          id: 'b',
+          dependsOn: ['a'],
+          execute: async () => {
+            if (failB.value) throw new Error('Crashed');
+            return { b: 2 };
+          },
+        });
+
+      await engine.execute({ a: 0, b: 0, c: 0 }, { runId: 'run-3' });
+      failB.value = false;
+      const result = await engine.resume('run-3');
+
+      expect(result.success).toBe(true);
+      expect(result.context).toEqual({ a: 1, b: 2, c: 0 });
+      expect(calls.a).toBe(1);
+    });
+
+    test('should reject resume without a store or checkpoint', async () => {
+      await expect(new DagEngine(deps).resume('run-x')).rejects.toThrow(
+        'resume requires a checkpointStore'
+      );
+      const engine = new DagEngine(deps, undefined, {
+        checkpointStore: new MemoryCheckpointStore(),
+      });
+      await expect(engine.resume('run-x')).rejects.toThrow('No checkpoint found for run run-x');
+    });
+  });
+
+  describe('compensation', () => {
+    type Ctx = { paymentId?: string; reserved: boolean; shipped: boolean };
+
+    function buildEngine(
+      undone: string[],
+      options: ConstructorParameters<typeof DagEngine<Ctx>>[2] = {},
+      failRefund = false
+    ) {
+      return new DagEngine<Ctx>(deps, undefined, options)
+        .addNode({
+          id: 'payment',
+          execute: async () => ({ paymentId: 'pay_1' }),
+          compensate: async (ctx, patch) => {
+            undone.push(`refund:${patch.paymentId}`);
+          },
+        })
+        .addNode({
+          id: 'inventory',
+          dependsOn: ['payment'],
+          execute: async () => ({ reserved: true }),
+          compensate: async () => {
+            if (failRefund) throw new Error('Release failed');
+            undone.push('release');
+          },
+        })
+        .addNode({
+          id: 'shipping',
+          dependsOn: ['inventory'],
+          execute: async () => {
+            throw new Error('No carrier');
+          },
+          compensate: async () => {
+            undone.push('unship');
+          },
+        });
+    }
+
+    test('should compensate succeeded nodes in reverse topological order', async () => {
+      const undone: string[] = [];
+      const result = await buildEngine(undone).execute({ reserved: false, shipped: false });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('No carrier');
+      expect(undone).toEqual(['release', 'refund:pay_1']);
+      expect(result.metrics.nodes.payment.compensation?.status).toBe('success');
+      expect(result.metrics.nodes.inventory.compensation?.status).toBe('success');
+      expect(result.metrics.nodes.shipping.compensation).toBeUndefined();
+    });
+
+    test('should not compensate when the run succeeds', async () => {
+      const undone: string[] = [];
+      const engine = new DagEngine<Ctx>(deps).addNode({
+        id: 'payment',
+        execute: async () => ({ paymentId: 'pay_1' }),
+        compensate: async () => {
+          undone.push('refund');
+        },
+      });
+
+      await engine.execute({ reserved: false, shipped: false });
+
+      expect(undone).toEqual([]);
+    });
+
+    test('should continue past failing compensations by default', async () => {
+      const undone: string[] = [];
+      const result = await buildEngine(undone, {}, true).execute({ reserved: false, shipped: false });
+
+      expect(undone).toEqual(['refund:pay_1']);
+      expect(result.metrics.nodes.inventory.compensation).toMatchObject({
+        status: 'failed',
+        error: 'Release failed',
+      });
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Compensation for node inventory failed',
+        expect.anything()
+      );
+    });
+
+    test('should stop compensating under the stop policy', async () => {
+      const undone: string[] = [];
+      const result = await buildEngine(undone, { compensationPolicy: 'stop' }, true).execute({
+        reserved: false,
+        shipped: false,
+      });
+
+      expect(undone).toEqual([]);
+      expect(result.metrics.nodes.inventory.compensation?.status).toBe('failed');
+      expect(result.metrics.nodes.payment.compensation?.status).toBe('skipped');
+    });
+
+    test.each(['batch', 'ready-queue'] as const)(
+      'should compensate a sibling that succeeded alongside the failure (%s)',
+      async (scheduler) => {
+        const undone: string[] = [];
+        const engine = new DagEngine<Ctx>(deps, undefined, { scheduler })
+          .addNode({
+            id: 'shipping',
+            execute: async () => {
+              throw new Error('No carrier');
+            },
+          })
+          .addNode({
+            id: 'payment',
+            execute: async () => {
+              await new Promise(res => setTimeout(res, 20));
+              return { paymentId: 'pay_1' };
+            },
+            compensate: async (_ctx, patch) => {
+              undone.push(`refund:${patch.paymentId}`);
+            },
+          });
+
+        const result = await engine.execute({ reserved: false, shipped: false });
+
+        expect(result.error?.message).toBe('No carrier');
+        expect(result.metrics.nodes.payment.status).toBe('success');
+        expect(undone).toEqual(['refund:pay_1']);
+        expect(result.metrics.nodes.payment.compensation?.status).toBe('success');
+      }
+    );
+  });
+
+  describe('write conflicts', () => {
+    type Ctx = { total: number; profile: { name?: string; age?: number }; log: string[] };
+    const initial: Ctx = { total: 0, profile: {}, log: [] };
+
+    function parallelWriters(engine: DagEngine<Ctx>) {
+      return engine
+        .addNode({
+          id: 'left',
+          execute: async () => ({ total: 1, profile: { name: 'Ann' }, log: ['left'] }),
+        })
+        .addNode({
+          id: 'right',
+          execute: async () => ({ total: 2, profile: { age: 30 }, log: ['right'] }),
+        });
+    }
+
+    test('should detect concurrent writes and keep last-wins by default', async () => {
+      const result = await parallelWriters(new DagEngine<Ctx>(deps)).execute(initial);
+
+      expect(result.success).toBe(true);
+      expect(result.context.total).toBe(2);
+      expect(result.metrics.conflicts).toEqual([
+        { key: 'total', nodeId: 'right', conflictsWith: 'left', resolution: 'last-wins' },
+        { key: 'profile', nodeId: 'right', conflictsWith: 'left', resolution: 'last-wins' },
+        { key: 'log', nodeId: 'right', conflictsWith: 'left', resolution: 'last-wins' },
+      ]);
+    });
+
+    test('should not report writes from dependent nodes as conflicts', async () => {
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({ id: 'first', execute: async () => ({ total: 1 }) })
+        .addNode({ id: 'second', dependsOn: ['first'], execute: async (ctx) => ({ total: ctx.total + 1 }) });
+
+      const result = await engine.execute(initial);
+
+      expect(result.context.total).toBe(2);
+      expect(result.metrics.conflicts).toBeUndefined();
+    });
+
+    test('should fail the run under the error strategy', async () => {
+      const engine = parallelWriters(new DagEngine<Ctx>(deps, undefined, { onConflict: 'error' }));
+
+      const result = await engine.execute(initial);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(DagConflictError);
+      expect(result.error?.message).toBe('Nodes left and right both wrote "total" concurrently');
+    });
+
+    test('should resolve conflicts with per-key strategies', async () => {
+      const engine = parallelWriters(
+        new DagEngine<Ctx>(deps, undefined, {
+          onConflict: 'error',
+          conflictStrategies: {
+            total: (current, incoming) => current + incoming,
+            profile: 'deep-merge',
+            log: (current, incoming) => [...current, ...incoming],
+          },
+        })
+      );
+
+      const result = await engine.execute(initial);
+
+      expect(result.success).toBe(true);
+      expect(result.context).toEqual({
+        total: 3,
+        profile: { name: 'Ann', age: 30 },
+        log: ['left', 'right'],
+      });
+      expect(result.metrics.conflicts?.map((c) => c.resolution)).toEqual([
+        'custom',
+        'deep-merge',
+        'custom',
+      ]);
+    });
+
+    test('should reject unordered nodes with overlapping declared writes', () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { writeConflicts: 'reject' })
+        .addNode({ id: 'left', writes: ['total'], execute: async () => ({ total: 1 }) })
+        .addNode({ id: 'right', reads: ['total'], execute: async () => ({}) });
+
+      expect(() => engine.plan()).toThrow(
+        'Nodes left and right may run in parallel but both access "total"'
+      );
+    });
+
+    test('should serialize unordered nodes with overlapping declared writes', async () => {
+      for (const scheduler of ['batch', 'ready-queue'] as const) {
+        const engine = new DagEngine<Ctx>(deps, undefined, { writeConflicts: 'serialize', scheduler })
+          .addNode({
+            id: 'left',
+            writes: ['total'],
+            config: { onError: 'skip-dependents' },
+            execute: async () => {
+              await new Promise((resolve) => setTimeout(resolve, 10));
+              throw new Error('Failed');
+            },
+          })
+          .addNode({
+            id: 'right',
+            writes: ['total'],
+            execute: async (ctx) => ({ total: ctx.total + 1 }),
+          })
+          .addNode({ id: 'other', writes: ['log'], execute: async () => ({ log: ['x'] }) });
+
+        expect(engine.plan().batches).toEqual([['left', 'other'], ['right']]);
+
+        const result = await engine.execute(initial);
+
+        expect(result.success).toBe(true);
+        expect(result.metrics.nodes.right.status).toBe('success');
+        expect(result.context.total).toBe(1);
+      }
+    });
+
+    test('should not serialize nodes already ordered by dependsOn', () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { writeConflicts: 'reject' })
+        .addNode({ id: 'left', writes: ['total'], execute: async () => ({ total: 1 }) })
+        .addNode({ id: 'mid', dependsOn: ['left'], execute: async () => ({}) })
+        .addNode({ id: 'right', dependsOn: ['mid'], writes: ['total'], execute: async () => ({}) });
+
+      expect(engine.plan().batches).toEqual([['left'], ['mid'], ['right']]);
+    });
+  });
+
+  describe('context reducers', () => {
+    type Ctx = { items: string[]; settings: { theme?: string; lang?: string; flags: { beta?: boolean } } };
+    const initial: Ctx = { items: ['seed'], settings: { theme: 'dark', flags: {} } };
+
+    test('should let fan-out nodes contribute through a reducer', async () => {
+      for (const scheduler of ['batch', 'ready-queue'] as const) {
+        const engine = new DagEngine<Ctx>(deps, undefined, {
+          scheduler,
+          onConflict: 'error',
+          reducers: { items: (prev, next) => [...prev, ...next] },
+        });
+        for (const id of ['a', 'b', 'c']) {
+          engine.addNode({ id, execute: async () => ({ items: [id] }) });
+        }
+        engine.addNode({
+          id: 'join',
+          dependsOn: ['a', 'b', 'c'],
+          execute: async (ctx) => ({ items: [`count:${ctx.items.length}`] }),
+        });
+
+        const result = await engine.execute(initial);
+
+        expect(result.success).toBe(true);
+        expect([...result.context.items].sort()).toEqual(['a', 'b', 'c', 'count:4', 'seed']);
+        expect(result.metrics.conflicts).toBeUndefined();
+      }
+    });
+
+    test('should deep-merge object keys on every merge', async () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { reducers: { settings: 'deep-merge' } })
+        .addNode({
+          id: 'lang',
+          execute: async () => ({ settings: { lang: 'en' } } as Partial<Ctx>),
+        })
+        .addNode({
+          id: 'beta',
+          dependsOn: ['lang'],
+          execute: async () => ({ settings: { flags: { beta: true } } } as Partial<Ctx>),
+        });
+
+      const result = await engine.execute(initial);
+
+      expect(result.context.settings).toEqual({ theme: 'dark', lang: 'en', flags: { beta: true } });
+      expect(initial.settings).toEqual({ theme: 'dark', flags: {} });
+    });
+  });
+
+  describe('frozen context mode', () => {
+    type Ctx = { big: { rows: number[] }; items: string[]; count: number };
+
+    test('should produce the same results as the default mode', async () => {
+      for (const contextMode of ['clone', 'frozen'] as const) {
+        const engine = new DagEngine<Ctx>(deps, undefined, {
+          contextMode,
+          reducers: { items: (prev, next) => [...prev, ...next] },
+        })
+          .addNode({ id: 'a', execute: async () => ({ items: ['a'], count: 1 }) })
+          .addNode({ id: 'b', execute: async () => ({ items: ['b'] }) })
+          .addNode({
+            id: 'c',
+            dependsOn: ['a', 'b'],
+            execute: async (ctx) => ({ count: ctx.count + ctx.items.length }),
+          });
+
+        const result = await engine.execute({ big: { rows: [1, 2] }, items: [], count: 0 });
+
+        expect(result.context).toEqual({ big: { rows: [1, 2] }, items: ['a', 'b'], count: 3 });
+      }
+    });
+
+    test('should share unchanged subtrees between snapshots', async () => {
+      const seen: unknown[] = [];
+      const engine = new DagEngine<Ctx>(deps, undefined, { contextMode: 'frozen' })
+        .addNode({
+          id: 'a',
+          execute: async (ctx) => {
+            seen.push(ctx.big);
+            return { count: 1 };
+          },
+        })
+        .addNode({
+          id: 'b',
+          dependsOn: ['a'],
+          execute: async (ctx) => {
+            seen.push(ctx.big);
+            return { count: 2 };
+          },
+        });
+
+      const initial = { big: { rows: [1, 2, 3] }, items: [], count: 0 };
+      const result = await engine.execute(initial);
+
+      expect(seen[0]).toBe(seen[1]);
+      expect(result.context.big).toBe(seen[0]);
+      expect(seen[0]).not.toBe(initial.big);
+      expect(Object.isFrozen(initial.big)).toBe(false);
+    });
+
+    test('should prevent nodes from mutating shared state', async () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { contextMode: 'frozen' })
+        .addNode({
+          id: 'mutator',
+          config: { onError: 'skip' },
+          execute: async (ctx) => {
+            (ctx.big.rows as number[]).push(4);
+            return {};
+          },
+        })
+        .addNode({ id: 'reader', dependsOn: ['mutator'], execute: async (ctx) => ({ count: ctx.big.rows.length }) });
+
+      const result = await engine.execute({ big: { rows: [1, 2, 3] }, items: [], count: 0 });
+
+      expect(result.metrics.nodes.mutator.status).toBe('failed');
+      expect(result.metrics.nodes.mutator.error).toMatch(/not extensible|read only|frozen/);
+      expect(result.context.count).toBe(3);
+    });
+
+    test('should detach merged patches from the node that returned them', async () => {
+      const owned = { rows: [1] };
+      const engine = new DagEngine<Ctx>(deps, undefined, { contextMode: 'frozen' }).addNode({
+        id: 'a',
+        execute: async () => ({ big: owned }),
+      });
+
+      const result = await engine.execute({ big: { rows: [] }, items: [], count: 0 });
+      owned.rows.push(2);
+
+      expect(result.context.big.rows).toEqual([1]);
+      expect(Object.isFrozen(result.context.big.rows)).toBe(true);
+    });
+  });
+
+  describe('strict context', () => {
+    type Ctx = { user: { name: string; tags: string[] }; count: number };
+    const initial = (): Ctx => ({ user: { name: 'ada', tags: ['admin'] }, count: 0 });
+
+    test('should name the node and path of a mutation', async () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { strictContext: true }).addNode({
+        id: 'mutator',
+        execute: async (ctx) => {
+          ctx.user.tags.push('root');
+          return {};
+        },
+      });
+
+      const result = await engine.execute(initial());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(DagMutationError);
+      expect(result.error).toMatchObject({ nodeId: 'mutator', path: 'ctx.user.tags[1]' });
+      expect(result.error?.message).toBe('Node mutator attempted to mutate context at ctx.user.tags[1]');
+    });
+
+    test('should guard shouldRun, validate and cleanup', async () => {
+      const attempts: Record<string, unknown> = {};
+      const capture = (id: string, fn: () => void) => {
+        try {
+          fn();
+        } catch (err) {
+          attempts[id] = err;
+        }
+      };
+      const engine = new DagEngine<Ctx>(deps, undefined, { strictContext: true }).addNode({
+        id: 'hooks',
+        shouldRun: (ctx) => {
+          capture('shouldRun', () => { ctx.count = 1; });
+          return true;
+        },
+        validate: (ctx) => {
+          capture('validate', () => { delete (ctx.user as Partial<Ctx['user']>).name; });
+          return true;
+        },
+        cleanup: (ctx) => {
+          capture('cleanup', () => { Object.defineProperty(ctx.user, 'x', { value: 1 }); });
+        },
+        execute: async () => ({}),
+      });
+
+      await engine.execute(initial());
+
+      expect(attempts.shouldRun).toMatchObject({ path: 'ctx.count' });
+      expect(attempts.validate).toMatchObject({ path: 'ctx.user.name' });
+      expect(attempts.cleanup).toMatchObject({ path: 'ctx.user.x' });
+    });
+
+    test('should allow reading and copying the context into patches', async () => {
+      for (const contextMode of ['clone', 'frozen'] as const) {
+        const engine = new DagEngine<Ctx>(deps, undefined, { strictContext: true, contextMode })
+          .addNode({
+            id: 'copy',
+            execute: async (ctx) => ({
+              user: { ...ctx.user, tags: [...ctx.user.tags, 'dev'] },
+              count: Object.keys(ctx).length + ctx.user.tags.length,
+            }),
+          })
+          .addNode({
+            id: 'read',
+            dependsOn: ['copy'],
+            execute: async (ctx) => {
+              expect(Array.isArray(ctx.user.tags)).toBe(true);
+              expect(JSON.parse(JSON.stringify(ctx))).toEqual(ctx);
+              return { count: ctx.count + 1 };
+            },
+          });
+
+        const result = await engine.execute(initial());
+
+        expect(result.success).toBe(true);
+        expect(result.context).toEqual({ user: { name: 'ada', tags: ['admin', 'dev'] }, count: 4 });
+      }
+    });
+
+    test('should not interfere when disabled', async () => {
+      const engine = new DagEngine<Ctx>(deps).addNode({
+        id: 'mutator',
+        execute: async (ctx) => {
+          (ctx as Ctx).count = 5;
+          return {};
+        },
+      });
+
+      const result = await engine.execute(initial());
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('node outputs', () => {
+    type Ctx = { greeting: string };
+
+    test('should pass dependency outputs by id without touching the context', async () => {
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({ id: 'fetch-user', execute: async () => output({ name: 'ada' }) })
+        .addNode({
+          id: 'greet',
+          dependsOn: ['fetch-user'],
+          execute: async (_ctx, deps) => {
+            const user = deps.outputs['fetch-user']!;
+            return output(user.name.length, { greeting: `hello ${user.name}` });
+          },
+        });
+
+      const result = await engine.execute({ greeting: '' });
+
+      expect(result.success).toBe(true);
+      expect(result.context).toEqual({ greeting: 'hello ada' });
+      expect(result.outputs).toEqual({ 'fetch-user': { name: 'ada' }, greet: 3 });
+    });
+
+    test('should only expose outputs of direct dependencies', async () => {
+      const seen: unknown[] = [];
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({ id: 'a', execute: async () => output('a') })
+        .addNode({ id: 'b', dependsOn: ['a'], execute: async () => ({}) })
+        .addNode({
+          id: 'c',
+          dependsOn: ['b'],
+          execute: async (_ctx, deps) => {
+            seen.push(deps.outputs);
+            return {};
+          },
+        });
+
+      const result = await engine.execute({ greeting: '' });
+
+      expect(seen).toEqual([{}]);
+      expect(result.outputs).toEqual({ a: 'a' });
+    });
+
+    test('should report outputs in nodeSuccess events', async () => {
+      const events: unknown[] = [];
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({ id: 'a', execute: async () => output(42, { greeting: 'hi' }) })
+        .on('nodeSuccess', e => void events.push(e));
+
+      await engine.execute({ greeting: '' });
+
+      expect(events).toEqual([{ nodeId: 'a', attempt: 1, patch: { greeting: 'hi' }, output: 42 }]);
+    });
+
+    test('should restore outputs when resuming from a checkpoint', async () => {
+      const store = new MemoryCheckpointStore();
+      let fail = true;
+      const engine = new DagEngine<Ctx>(deps, undefined, { checkpointStore: store })
+        .addNode({ id: 'a', execute: async () => output({ token: 't1' }) })
+        .addNode({
+          id: 'b',
+          dependsOn: ['a'],
+          execute: async (_ctx, deps) => {
+            if (fail) {
+              throw new Error('Crashed');
+            }
+            return { greeting: deps.outputs.a!.token };
+          },
+        });
+
+      const first = await engine.execute({ greeting: '' }, { runId: 'run-1' });
+      expect(first.success).toBe(false);
+      expect(first.outputs).toEqual({ a: { token: 't1' } });
+
+      fail = false;
+      const resumed = await engine.resume('run-1');
+
+      expect(resumed.success).toBe(true);
+      expect(resumed.context.greeting).toBe('t1');
+    });
+  });
+
+  describe('createDag', () => {
+    type Ctx = { total: number };
+
+    test('should build a regular engine from a chain of nodes', async () => {
+      const engine = createDag<Ctx>(deps, undefined, { scheduler: 'ready-queue' })
+        .addNode({ id: 'a', execute: async () => output(1) })
+        .addNode({ id: 'b', execute: async () => output(2) })
+        .addNode({
+          id: 'sum',
+          dependsOn: ['a', 'b'],
+          execute: async (_ctx, deps) => ({ total: deps.outputs.a! + deps.outputs.b! }),
+        });
+
+      const result = await engine.execute({ total: 0 });
+
+      expect(engine).toBeInstanceOf(DagEngine);
+      expect(result.context.total).toBe(3);
+    });
+
+    test('should still reject missing dependencies at plan time', () => {
+      const engine = createDag<Ctx>(deps).addNode({
+        id: 'a',
+        // @ts-expect-error 'missing' has not been added
+        dependsOn: ['missing'],
+        execute: async () => ({}),
+      });
+
+      expect(() => engine.plan()).toThrow('depends on missing node');
+    });
+  });
+
+  describe('branch nodes', () => {
+    type Ctx = { kind: string; path: string[] };
+    const visit = (id: string) => async (ctx: Readonly<Ctx>) => ({ path: [...ctx.path, id] });
+
+    function buildEngine(scheduler: 'batch' | 'ready-queue') {
+      return new DagEngine<Ctx>(deps, undefined, { scheduler })
+        .addNode({
+          id: 'route',
+          execute: async () => ({}),
+          branch: (ctx) => (ctx.kind === 'image' ? 'resize' : 'parse'),
+        })
+        .addNode({ id: 'resize', dependsOn: ['route'], execute: visit('resize') })
+        .addNode({ id: 'parse', dependsOn: ['route'], execute: visit('parse') })
+        .addNode({ id: 'index', dependsOn: ['parse'], execute: visit('index') })
+        .addNode({ id: 'store', dependsOn: ['resize', 'index'], execute: visit('store') });
+    }
+
+    test('should only run the selected path and let the join proceed', async () => {
+      for (const scheduler of ['batch', 'ready-queue'] as const) {
+        const notTaken: string[] = [];
+        const engine = buildEngine(scheduler).on('nodeNotTaken', e => void notTaken.push(e.nodeId));
+
+        const result = await engine.execute({ kind: 'image', path: [] });
+
+        expect(result.success).toBe(true);
+        expect(result.context.path).toEqual(['resize', 'store']);
+        expect(result.metrics.nodes.parse.status).toBe('not-taken');
+        expect(result.metrics.nodes.index.status).toBe('not-taken');
+        expect(result.metrics.notTakenNodes).toBe(2);
+        expect(result.metrics.blockedNodes).toBe(0);
+        expect(notTaken).toEqual(['parse', 'index']);
+      }
+    });
+
+    test('should pass the patch to the selector and allow several paths', async () => {
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({
+          id: 'route',
+          execute: async () => ({ kind: 'both' }),
+          branch: (_ctx, patch) => (patch.kind === 'both' ? ['a', 'b'] : 'a'),
+        })
+        .addNode({ id: 'a', dependsOn: ['route'], execute: visit('a') })
+        .addNode({ id: 'b', dependsOn: ['route'], execute: async () => ({}) })
+        .addNode({ id: 'c', dependsOn: ['route'], execute: visit('c') });
+
+      const result = await engine.execute({ kind: '', path: [] });
+
+      expect(result.metrics.nodes.a.status).toBe('success');
+      expect(result.metrics.nodes.b.status).toBe('success');
+      expect(result.metrics.nodes.c.status).toBe('not-taken');
+    });
+
+    test('should fail the branch node when it selects a node that does not depend on it', async () => {
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({ id: 'route', execute: async () => ({}), branch: () => 'elsewhere' })
+        .addNode({ id: 'a', dependsOn: ['route'], execute: visit('a') });
+
+      const result = await engine.execute({ kind: '', path: [] });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Branch node route selected elsewhere, which does not depend on it');
+      expect(result.metrics.nodes.route.status).toBe('failed');
+    });
+
+    test('should keep not-taken paths when resuming', async () => {
+      const store = new MemoryCheckpointStore();
+      let fail = true;
+      const engine = new DagEngine<Ctx>(deps, undefined, { checkpointStore: store })
+        .addNode({ id: 'route', execute: async () => ({}), branch: () => 'a' })
+        .addNode({
+          id: 'a',
+          dependsOn: ['route'],
+          execute: async (ctx) => {
+            if (fail) throw new Error('Crashed');
+            return { path: [...ctx.path, 'a'] };
+          },
+        })
+        .addNode({ id: 'b', dependsOn: ['route'], execute: visit('b') });
+
+      await engine.execute({ kind: '', path: [] }, { runId: 'run-1' });
+      fail = false;
+      const resumed = await engine.resume('run-1');
+
+      expect(resumed.success).toBe(true);
+      expect(resumed.context.path).toEqual(['a']);
+      expect(resumed.metrics.nodes.b.status).toBe('not-taken');
+      expect(resumed.metrics.notTakenNodes).toBe(1);
+    });
+  });
+
+  describe('trigger rules', () => {
+    type Ctx = { ran: string[] };
+    const ok = (id: string, ms = 0) => ({
+      id,
+      execute: async () => {
+        await new Promise(res => setTimeout(res, ms));
+        return { ran: [id] };
+      },
+    });
+    const failing = (id: string, onError: 'skip' | 'skip-dependents') => ({
+      id,
+      config: { onError },
+      execute: async (): Promise<Partial<Ctx>> => {
+        throw new Error(`${id} failed`);
+      },
+    });
+    const gated = (id: string) => ({ ...ok(id), shouldRun: () => false });
+    const reducers = { ran: (prev: string[], next: string[]) => [...prev, ...next] };
+
+    test('should block all-success nodes after a failure the run continued past', async () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { reducers })
+        .addNode(ok('a'))
+        .addNode(failing('b', 'skip'))
+        .addNode({ ...ok('default'), dependsOn: ['a', 'b'] })
+        .addNode({ ...ok('strict'), dependsOn: ['a', 'b'], config: { trigger: 'all-success' } });
+
+      const result = await engine.execute({ ran: [] });
+
+      expect(result.metrics.nodes.default.status).toBe('success');
+      expect(result.metrics.nodes.strict.status).toBe('blocked');
+    });
+
+    test('should run all-done nodes whatever their dependencies did', async () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { reducers })
+        .addNode(failing('a', 'skip-dependents'))
+        .addNode(gated('b'))
+        .addNode({ ...ok('c'), dependsOn: ['b'] })
+        .addNode({ ...ok('report'), dependsOn: ['a', 'b', 'c'], config: { trigger: 'all-done' } });
+
+      const result = await engine.execute({ ran: [] });
+
+      expect(result.metrics.nodes.c.status).toBe('blocked');
+      expect(result.metrics.nodes.report.status).toBe('success');
+      expect(result.context.ran).toEqual(['report']);
+    });
+
+    test('should run any-success nodes as soon as one dependency succeeds', async () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { scheduler: 'ready-queue', reducers })
+        .addNode(ok('fast', 5))
+        .addNode(ok('slow', 60))
+        .addNode({ ...ok('first'), dependsOn: ['fast', 'slow'], config: { trigger: 'any-success' } });
+
+      const result = await engine.execute({ ran: [] });
+
+      expect(result.context.ran).toEqual(['fast', 'first', 'slow']);
+    });
+
+    test('should block any-success nodes when no dependency succeeds', async () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { reducers })
+        .addNode(failing('a', 'skip'))
+        .addNode(gated('b'))
+        .addNode({ ...ok('fallback'), dependsOn: ['a', 'b'], config: { trigger: 'any-success' } });
+
+      const result = await engine.execute({ ran: [] });
+
+      expect(result.metrics.nodes.fallback.status).toBe('blocked');
+    });
+
+    test('should wait for the first n successful dependencies', async () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { scheduler: 'ready-queue', reducers })
+        .addNode(ok('a', 5))
+        .addNode(failing('b', 'skip'))
+        .addNode(ok('c', 20))
+        .addNode(ok('d', 80))
+        .addNode({
+          ...ok('quorum'),
+          dependsOn: ['a', 'b', 'c', 'd'],
+          config: { trigger: 'first-n', triggerCount: 2 },
+        });
+
+      const result = await engine.execute({ ran: [] });
+
+      expect(result.context.ran).toEqual(['a', 'c', 'quorum', 'd']);
+    });
+
+    test('should let none-failed nodes run after gated but not failed dependencies', async () => {
+      const engine = new DagEngine<Ctx>(deps, undefined, { reducers })
+        .addNode(ok('a'))
+        .addNode(gated('b'))
+        .addNode(failing('c', 'skip'))
+        .addNode({ ...ok('gatedOnly'), dependsOn: ['a', 'b'], config: { trigger: 'none-failed' } })
+        .addNode({ ...ok('withFailure'), dependsOn: ['a', 'c'], config: { trigger: 'none-failed' } });
+
+      const result = await engine.execute({ ran: [] });
+
+      expect(result.metrics.nodes.gatedOnly.status).toBe('success');
+      expect(result.metrics.nodes.withFailure.status).toBe('blocked');
+    });
+
+    test('should require a triggerCount for first-n', () => {
+      const engine = new DagEngine<Ctx>(deps);
+
+      expect(() => engine.addNode({ ...ok('a'), config: { trigger: 'first-n' } })).toThrow(
+        'Node a: trigger "first-n" requires a positive integer triggerCount'
+      );
+    });
+  });
+
+  describe('retry policies', () => {
+    type Ctx = { value: number };
+    const failing = (error = new Error('Unavailable')) => vi.fn(async (): Promise<Partial<Ctx>> => {
+      throw error;
+    });
+
+    test('should cap exponential backoff and record each attempt', async () => {
+      const engine = new DagEngine<Ctx>(deps).addNode({
+        id: 'a',
+        config: { maxRetries: 3, retryDelayMs: 4, retry: { maxDelayMs: 10 } },
+        execute: failing(),
+      });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.metrics.nodes.a.attempts).toBe(4);
+      expect(result.metrics.nodes.a.attemptErrors).toEqual([
+        { attempt: 1, error: 'Unavailable', delayMs: 4 },
+        { attempt: 2, error: 'Unavailable', delayMs: 8 },
+        { attempt: 3, error: 'Unavailable', delayMs: 10 },
+        { attempt: 4, error: 'Unavailable' },
+      ]);
+    });
+
+    test('should stop retrying errors rejected by shouldRetry', async () => {
+      class ValidationError extends Error {}
+      const shouldRetry = vi.fn((err: unknown) => !(err instanceof ValidationError));
+      const execute = failing(new ValidationError('Bad input'));
+      const engine = new DagEngine<Ctx>(deps).addNode({
+        id: 'a',
+        config: { maxRetries: 3, retryDelayMs: 1, retry: { shouldRetry } },
+        execute,
+      });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(ValidationError), 1);
+      expect(result.metrics.nodes.a.attemptErrors).toEqual([{ attempt: 1, error: 'Bad input' }]);
+    });
+
+    test('should take the delay from the error when delayFor returns one', async () => {
+      const error = Object.assign(new Error('Too many requests'), { retryAfterMs: 7 });
+      let calls = 0;
+      const engine = new DagEngine<Ctx>(deps).addNode({
+        id: 'a',
+        config: {
+          maxRetries: 2,
+          retryDelayMs: 1,
+          retry: {
+            jitter: 'full',
+            delayFor: (err) => (err as typeof error).retryAfterMs,
+          },
+        },
+        execute: async () => {
+          if (++calls === 1) throw error;
+          return { value: 1 };
+        },
+      });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.success).toBe(true);
+      expect(result.metrics.nodes.a.attemptErrors).toEqual([
+        { attempt: 1, error: 'Too many requests', delayMs: 7 },
+      ]);
+    });
+
+    test('should apply jitter strategies', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      try {
+        const delays: Record<string, number[]> = {};
+        for (const jitter of ['full', 'equal', 'decorrelated'] as const) {
+          const engine = new DagEngine<Ctx>(deps).addNode({
+            id: 'a',
+            config: { maxRetries: 2, retryDelayMs: 4, retry: { jitter } },
+            execute: failing(),
+          });
+          const result = await engine.execute({ value: 0 });
+          delays[jitter] = result.metrics.nodes.a.attemptErrors!.slice(0, 2).map(e => e.delayMs!);
+        }
+
+        expect(delays).toEqual({
+          full: [2, 4],
+          equal: [3, 6],
+          decorrelated: [8, 14],
+        });
+      } finally {
+        vi.restoreAllMocks();
+      }
+    });
+  });
+
+  describe('circuit breakers', () => {
+    type Ctx = { value: number };
+
+    function buildEngine(execute: () => Promise<Partial<Ctx>>, resetTimeoutMs = 10_000) {
+      return new DagEngine<Ctx>(deps, undefined, {
+        circuitBreakers: { payments: { failureThreshold: 2, resetTimeoutMs } },
+      })
+        .addNode({
+          id: 'charge',
+          config: { circuitBreaker: 'payments', onCircuitOpen: 'skip-dependents' },
+          execute,
+        })
+        .addNode({ id: 'receipt', dependsOn: ['charge'], execute: async () => ({ value: 2 }) });
+    }
+
+    test('should open after consecutive failures and fail later runs fast', async () => {
+      const execute = vi.fn(async (): Promise<Partial<Ctx>> => {
+        throw new Error('Service down');
+      });
+      const engine = buildEngine(execute);
+
+      const first = await engine.execute({ value: 0 });
+      const second = await engine.execute({ value: 0 });
+      const third = await engine.execute({ value: 0 });
+
+      expect(first.success).toBe(false);
+      expect(second.success).toBe(false);
+      expect(second.metrics.circuitTransitions).toEqual([
+        { breaker: 'payments', from: 'closed', to: 'open', nodeId: 'charge', at: expect.any(Number) },
+      ]);
+      expect(engine.circuitState('payments')).toBe('open');
+
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(third.success).toBe(true);
+      expect(third.metrics.nodes.charge).toMatchObject({
+        status: 'failed',
+        attempts: 0,
+        circuitOpen: 'payments',
+        error: 'Circuit breaker payments is open; node charge was not run',
+      });
+      expect(third.metrics.nodes.receipt.status).toBe('blocked');
+      expect(third.errors[0].cause).toBeInstanceOf(DagCircuitOpenError);
+    });
+
+    test('should stop retrying but keep the real error when the circuit opens mid-retry', async () => {
+      const execute = vi.fn(async (): Promise<Partial<Ctx>> => {
+        throw new Error('Service down');
+      });
+      const engine = new DagEngine<Ctx>(deps, undefined, {
+        circuitBreakers: { payments: { failureThreshold: 2, resetTimeoutMs: 10_000 } },
+      }).addNode({
+        id: 'charge',
+        config: { circuitBreaker: 'payments', onCircuitOpen: 'skip', maxRetries: 3, retryDelayMs: 1 },
+        execute,
+      });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(engine.circuitState('payments')).toBe('open');
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Service down');
+      expect(result.errors[0].message).toBe('Node charge failed after 2 attempts: Service down');
+      expect(result.metrics.nodes.charge).toMatchObject({ attempts: 2, error: 'Service down' });
+      expect(result.metrics.nodes.charge.circuitOpen).toBeUndefined();
+      expect(result.metrics.nodes.charge.attemptErrors?.[1].delayMs).toBeUndefined();
+    });
+
+    test('should close again after a successful trial call', async () => {
+      let healthy = false;
+      const engine = buildEngine(async () => {
+        if (!healthy) throw new Error('Service down');
+        return { value: 1 };
+      }, 20);
+
+      await engine.execute({ value: 0 });
+      await engine.execute({ value: 0 });
+      expect(engine.circuitState('payments')).toBe('open');
+
+      await new Promise(res => setTimeout(res, 30));
+      healthy = true;
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.success).toBe(true);
+      expect(result.context.value).toBe(2);
+      expect(result.metrics.circuitTransitions?.map(t => [t.from, t.to])).toEqual([
+        ['open', 'half-open'],
+        ['half-open', 'closed'],
+      ]);
+      expect(engine.circuitState('payments')).toBe('closed');
+    });
+
+    test('should reopen when the trial call fails', async () => {
+      const engine = buildEngine(async () => {
+        throw new Error('Service down');
+      }, 20);
+
+      await engine.execute({ value: 0 });
+      await engine.execute({ value: 0 });
+      await new Promise(res => setTimeout(res, 30));
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.metrics.circuitTransitions?.map(t => t.to)).toEqual(['half-open', 'open']);
+      expect(engine.circuitState('payments')).toBe('open');
+    });
+
+    test('should reject unknown breakers and invalid options', () => {
+      expect(() =>
+        new DagEngine<Ctx>(deps).addNode({
+          id: 'a',
+          config: { circuitBreaker: 'missing' },
+          execute: async () => ({}),
+        })
+      ).toThrow('Node a: unknown circuit breaker "missing"');
+      expect(
+        () =>
+          new DagEngine<Ctx>(deps, undefined, {
+            circuitBreakers: { api: { failureThreshold: 0, resetTimeoutMs: 10 } },
+          })
+      ).toThrow('circuitBreakers.api.failureThreshold must be a positive integer, got 0');
+    });
+  });
+
+  describe('fallbacks', () => {
+    type Ctx = { price?: number; source?: string };
+
+    test('should use a fallback function after retries are exhausted', async () => {
+      const execute = vi.fn(async (): Promise<Partial<Ctx>> => {
+        throw new Error('Pricing service down');
+      });
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({
+          id: 'price',
+          config: { maxRetries: 1, retryDelayMs: 0 },
+          execute,
+          fallback: async () => ({ price: 10, source: 'cache' }),
+        })
+        .addNode({ id: 'quote', dependsOn: ['price'], execute: async (ctx) => ({ price: ctx.price! * 2 }) });
+
+      const result = await engine.execute({});
+
+      expect(result.success).toBe(true);
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(result.context).toEqual({ price: 20, source: 'cache' });
+      expect(result.metrics.nodes.price).toMatchObject({
+        status: 'success',
+        attempts: 2,
+        error: 'Pricing service down',
+        fallback: { status: 'success' },
+      });
+    });
+
+    test('should run a fallback node only when the primary fails', async () => {
+      const backup = vi.fn(async () => ({ source: 'backup' }));
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({
+          id: 'primary',
+          execute: async () => {
+            throw new Error('Primary down');
+          },
+          fallback: 'backup',
+        })
+        .addNode({ id: 'backup', execute: backup })
+        .addNode({
+          id: 'healthy',
+          execute: async () => ({ price: 1 }),
+          fallback: 'backup',
+        });
+
+      const result = await engine.execute({});
+
+      expect(result.success).toBe(true);
+      expect(backup).toHaveBeenCalledTimes(1);
+      expect(result.context).toEqual({ price: 1, source: 'backup' });
+      expect(result.metrics.totalNodes).toBe(2);
+      expect(result.metrics.nodes.primary.fallback).toMatchObject({ status: 'success', node: 'backup' });
+      expect(result.metrics.nodes.backup.status).toBe('success');
+    });
+
+    test('should fail with the primary error when the fallback fails too', async () => {
+      const engine = new DagEngine<Ctx>(deps).addNode({
+        id: 'price',
+        execute: async () => {
+          throw new Error('Pricing service down');
+        },
+        fallback: async () => {
+          throw new Error('Cache empty');
+        },
+      });
+
+      const result = await engine.execute({});
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Pricing service down');
+      expect(result.metrics.nodes.price.fallback).toMatchObject({ status: 'failed', error: 'Cache empty' });
+    });
+
+    test('should reject fallback nodes that are wired into the graph', () => {
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({ id: 'a', execute: async () => ({}), fallback: 'b' })
+        .addNode({ id: 'b', execute: async () => ({}) })
+        .addNode({ id: 'c', dependsOn: ['b'], execute: async () => ({}) });
+
+      expect(() => engine.plan()).toThrow('Fallback node b cannot have dependencies or dependents');
+      expect(() =>
+        new DagEngine<Ctx>(deps).addNode({ id: 'a', execute: async () => ({}), fallback: 'nope' }).plan()
+      ).toThrow('Node a falls back to missing node "nope"');
+    });
+  });
+
+  describe('error boundaries', () => {
+    type Ctx = { log: string[] };
+
+    function buildEngine(failing: string | null) {
+      const step = (id: string) => async () => {
+        if (id === failing) throw new Error(`${id} failed`);
+        return { log: [id] };
+      };
+      return new DagEngine<Ctx>(deps, undefined, {
+        reducers: { log: (prev, next) => [...prev, ...next] },
+      })
+        .addNode({ id: 'reserve', execute: step('reserve') })
+        .addNode({ id: 'charge', dependsOn: ['reserve'], execute: step('charge') })
+        .addNode({ id: 'ship', dependsOn: ['charge'], execute: step('ship') })
+        .addNode({ id: 'refund', execute: step('refund') })
+        .addBoundary({ id: 'checkout', nodes: ['reserve', 'charge'], recovery: 'refund' });
+    }
+
+    test('should run the recovery node instead of failing the run', async () => {
+      const result = await buildEngine('charge').execute({ log: [] });
+
+      expect(result.success).toBe(true);
+      expect(result.context.log).toEqual(['reserve', 'refund']);
+      expect(result.metrics.nodes.charge).toMatchObject({ status: 'failed', caughtBy: 'checkout' });
+      expect(result.metrics.nodes.ship.status).toBe('blocked');
+      expect(result.metrics.nodes.refund.recovered).toEqual({
+        boundary: 'checkout',
+        failedNodes: ['charge'],
+      });
+    });
+
+    test('should not take the recovery node when nothing in the boundary fails', async () => {
+      const result = await buildEngine(null).execute({ log: [] });
+
+      expect(result.success).toBe(true);
+      expect(result.context.log).toEqual(['reserve', 'charge', 'ship']);
+      expect(result.metrics.nodes.refund.status).toBe('not-taken');
+    });
+
+    test('should reject overlapping boundaries and missing nodes', () => {
+      const engine = buildEngine(null);
+
+      expect(() =>
+        engine.addBoundary({ id: 'other', nodes: ['charge'], recovery: 'ship' })
+      ).toThrow('Node charge is already in boundary checkout');
+      expect(() =>
+        new DagEngine<Ctx>(deps)
+          .addNode({ id: 'a', execute: async () => ({}) })
+          .addBoundary({ id: 'b', nodes: ['a'], recovery: 'nope' })
+          .plan()
+      ).toThrow('Boundary b references missing node "nope"');
+    });
+  });
+
+  describe('error reporting', () => {
+    type Ctx = { value: number };
+
+    test('should report every failed node with its cause and attempt', async () => {
+      const flaky = new Error('Flaky');
+      const broken = new Error('Broken');
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({
+          id: 'optional',
+          config: { onError: 'skip', maxRetries: 1, retryDelayMs: 0 },
+          execute: async () => {
+            throw flaky;
+          },
+        })
+        .addNode({
+          id: 'required',
+          dependsOn: ['optional'],
+          execute: async () => {
+            throw broken;
+          },
+        });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.error).toBe(broken);
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0]).toBeInstanceOf(DagNodeFailedError);
+      expect(result.errors[0]).toMatchObject({ nodeId: 'optional', attempt: 2, cause: flaky });
+      expect(result.errors[0].message).toBe('Node optional failed after 2 attempts: Flaky');
+      expect(result.errors[1]).toMatchObject({ nodeId: 'required', attempt: 1, cause: broken });
+    });
+
+    test.each(['batch', 'ready-queue'] as const)(
+      'should report nodes that fail in parallel (%s)',
+      async (scheduler) => {
+        const fail = (message: string) => async (): Promise<Partial<Ctx>> => {
+          throw new Error(message);
+        };
+        const engine = new DagEngine<Ctx>(deps, undefined, { scheduler })
+          .addNode({ id: 'a', execute: fail('A down') })
+          .addNode({ id: 'b', execute: fail('B down') });
+
+        const result = await engine.execute({ value: 0 });
+
+        expect(result.error?.message).toBe('A down');
+        expect(result.errors.map(e => e.nodeId)).toEqual(['a', 'b']);
+        expect(result.metrics.failedNodes).toBe(2);
+      }
+    );
+
+    test('should report failures handled by skip on successful runs', async () => {
+      const engine = new DagEngine<Ctx>(deps).addNode({
+        id: 'optional',
+        config: { onError: 'skip-dependents' },
+        execute: async () => {
+          throw new Error('Flaky');
+        },
+      });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.success).toBe(true);
+      expect(result.error).toBeUndefined();
+      expect(result.errors.map(e => e.nodeId)).toEqual(['optional']);
+    });
+
+    test('should report timeouts, cycles and cancellation as execution errors', async () => {
+      const slow = await new DagEngine<Ctx>(deps)
+        .addNode({
+          id: 'slow',
+          config: { timeoutMs: 10 },
+          execute: () => new Promise<Partial<Ctx>>(() => {}),
+        })
+        .execute({ value: 0 });
+      expect(slow.errors).toEqual([slow.error]);
+      expect(slow.error).toBeInstanceOf(DagNodeTimeoutError);
+      expect(slow.error).toMatchObject({ nodeId: 'slow', attempt: 1, timeoutMs: 10 });
+
+      const cyclic = await new DagEngine<Ctx>(deps)
+        .addNode({ id: 'a', dependsOn: ['b'], execute: async () => ({}) })
+        .addNode({ id: 'b', dependsOn: ['a'], execute: async () => ({}) })
+        .execute({ value: 0 });
+      expect(cyclic.error).toBeInstanceOf(DagCycleError);
+      expect(cyclic.error).toMatchObject({ nodes: ['a', 'b'] });
+
+      const controller = new AbortController();
+      controller.abort();
+      const cancelled = await new DagEngine<Ctx>(deps)
+        .addNode({ id: 'a', execute: async () => ({}) })
+        .execute({ value: 0 }, { signal: controller.signal });
+      expect(cancelled.errors).toHaveLength(1);
+      expect(cancelled.errors[0]).toBeInstanceOf(DagCancelledError);
+      for (const error of [...slow.errors, ...cyclic.errors, ...cancelled.errors]) {
+        expect(error).toBeInstanceOf(DagExecutionError);
+      }
+    });
+  });
+
+  describe('hook errors', () => {
+    type Ctx = { value: number };
+
+    test('should time out a hanging shouldRun hook and abort its signal', async () => {
+      let hookSignal: AbortSignal | undefined;
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({
+          id: 'gate',
+          config: { onError: 'skip', hookTimeouts: { shouldRun: 10 } },
+          shouldRun: (_ctx, signal) => {
+            hookSignal = signal;
+            return new Promise(() => {});
+          },
+          execute: async () => ({ value: 1 }),
+        })
+        .addNode({ id: 'next', dependsOn: ['gate'], execute: async () => ({ value: 2 }) });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.success).toBe(true);
+      expect(result.context.value).toBe(2);
+      expect(hookSignal?.aborted).toBe(true);
+      expect(result.metrics.nodes.gate).toMatchObject({
+        status: 'failed',
+        attempts: 0,
+        error: 'gate shouldRun hook timed out',
+        hookError: { hook: 'shouldRun', timedOut: true },
+      });
+      expect(result.errors[0]).toBeInstanceOf(DagHookTimeoutError);
+      expect(result.errors[0]).toMatchObject({ nodeId: 'gate', hook: 'shouldRun', timeoutMs: 10 });
+    });
+
+    test('should apply onError to a throwing validate hook', async () => {
+      const execute = vi.fn(async () => ({ value: 1 }));
+      const engine = new DagEngine<Ctx>(deps)
+        .addNode({
+          id: 'check',
+          config: { onError: 'skip-dependents' },
+          validate: () => {
+            throw new Error('Schema unavailable');
+          },
+          execute,
+        })
+        .addNode({ id: 'next', dependsOn: ['check'], execute: async () => ({ value: 2 }) });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.success).toBe(true);
+      expect(execute).not.toHaveBeenCalled();
+      expect(result.metrics.nodes.check.hookError).toEqual({ hook: 'validate', error: 'Schema unavailable' });
+      expect(result.metrics.nodes.next.status).toBe('blocked');
+    });
+
+    test('should not let a cleanup error mask or change the node outcome', async () => {
+      const throwingCleanup = async () => {
+        throw new Error('Lock already released');
+      };
+      const failed = await new DagEngine<Ctx>(deps)
+        .addNode({
+          id: 'work',
+          execute: async () => {
+            throw new Error('Boom');
+          },
+          cleanup: throwingCleanup,
+        })
+        .execute({ value: 0 });
+
+      expect(failed.error?.message).toBe('Boom');
+      expect(failed.metrics.nodes.work.hookError).toEqual({ hook: 'cleanup', error: 'Lock already released' });
+
+      const succeeded = await new DagEngine<Ctx>(deps)
+        .addNode({ id: 'work', execute: async () => ({ value: 1 }), cleanup: throwingCleanup })
+        .execute({ value: 0 });
+
+      expect(succeeded.success).toBe(true);
+      expect(succeeded.metrics.nodes.work.status).toBe('success');
+      expect(mockLogger.error).toHaveBeenCalledWith('Cleanup for node work failed', {
+        error: expect.any(Error),
+      });
+    });
+
+    test('should bound a cleanup that is already running when the run is cancelled', async () => {
+      const controller = new AbortController();
+      let cleanupSignal: AbortSignal | undefined;
+      const engine = new DagEngine<Ctx>(deps, undefined, { cleanupGraceMs: 50 }).addNode({
+        id: 'work',
+        execute: async () => ({ value: 1 }),
+        cleanup: (_ctx, signal) => {
+          cleanupSignal = signal;
+          return new Promise(() => {});
+        },
+      });
+
+      setTimeout(() => controller.abort(), 20);
+      const started = Date.now();
+      const result = await engine.execute({ value: 0 }, { signal: controller.signal });
+
+      expect(Date.now() - started).toBeLessThan(300);
+      expect(result.success).toBe(false);
+      expect(cleanupSignal?.aborted).toBe(true);
+      expect(result.metrics.nodes.work.hookError).toMatchObject({ hook: 'cleanup', timedOut: true });
+    });
+
+    test('should time out a hanging cleanup hook', async () => {
+      const engine = new DagEngine<Ctx>(deps).addNode({
+        id: 'work',
+        config: { hookTimeouts: { cleanup: 10 } },
+        execute: async () => ({ value: 1 }),
+        cleanup: () => new Promise(() => {}),
+      });
+
+      const result = await engine.execute({ value: 0 });
+
+      expect(result.success).toBe(true);
+      expect(result.metrics.nodes.work.hookError).toEqual({
+        hook: 'cleanup',
+        error: 'work cleanup hook timed out',
+        timedOut: true,
+      });
+    });
+  });
 });
@@ -0,0 +1,155 @@
+import { describe, expect, test, vi } from 'vitest';
+import { DagEngine, loopNode, output, subDag } from '../src';
+
+type Ctx = { jobId: string; status?: string; polls: number; url?: string };
+
+const deps = { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } };
+
+function poller(statuses: string[]) {
+  return {
+    id: 'check',
+    execute: vi.fn(async (ctx: Readonly<Ctx>) => ({
+      status: statuses[ctx.polls],
+      polls: ctx.polls + 1,
+    })),
+  };
+}
+
+describe('loopNode', () => {
+  test('should repeat the body until the predicate holds', async () => {
+    const body = poller(['queued', 'running', 'ready']);
+    const engine = new DagEngine<Ctx>(deps).addNode(
+      loopNode<Ctx>({
+        id: 'wait-for-export',
+        body,
+        until: (ctx) => ctx.status === 'ready',
+        maxIterations: 5,
+      })
+    );
+
+    const result = await engine.execute({ jobId: 'j1', polls: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.context).toEqual({ jobId: 'j1', status: 'ready', polls: 3 });
+    expect(body.execute).toHaveBeenCalledTimes(3);
+    expect(result.metrics.nodes['wait-for-export'].attempts).toBe(1);
+    expect(result.metrics.nodes['wait-for-export'].iterations?.map(i => [i.iteration, i.status])).toEqual([
+      [1, 'success'],
+      [2, 'success'],
+      [3, 'success'],
+    ]);
+  });
+
+  test('should fail once maxIterations is exhausted', async () => {
+    const engine = new DagEngine<Ctx>(deps).addNode(
+      loopNode<Ctx>({
+        id: 'wait-for-export',
+        body: poller(['queued', 'queued', 'queued']),
+        until: (ctx) => ctx.status === 'ready',
+        maxIterations: 2,
+      })
+    );
+
+    const result = await engine.execute({ jobId: 'j1', polls: 0 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('wait-for-export did not finish after 2 iterations');
+    expect(result.metrics.nodes['wait-for-export'].iterations).toHaveLength(2);
+  });
+
+  test('should wait between iterations and stop on the node timeout', async () => {
+    const body = poller(['queued', 'queued', 'queued', 'queued']);
+    const engine = new DagEngine<Ctx>(deps).addNode(
+      loopNode<Ctx>({
+        id: 'wait-for-export',
+        config: { timeoutMs: 70 },
+        body,
+        until: (ctx) => ctx.status === 'ready',
+        maxIterations: 4,
+        delayMs: 50,
+      })
+    );
+
+    const result = await engine.execute({ jobId: 'j1', polls: 0 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('wait-for-export timed out');
+    expect(body.execute).toHaveBeenCalledTimes(2);
+  });
+
+  test('should record failed iterations and keep the last output', async () => {
+    let calls = 0;
+    const engine = new DagEngine<Ctx>(deps)
+      .addNode(
+        loopNode<Ctx>({
+          id: 'fetch',
+          body: {
+            id: 'page',
+            execute: async (ctx) => output(`page-${ctx.polls}`, { polls: ctx.polls + 1 }),
+          },
+          until: (_ctx, iteration) => iteration === 2,
+          maxIterations: 3,
+        })
+      )
+      .addNode(
+        loopNode<Ctx>({
+          id: 'flaky',
+          config: { onError: 'skip' },
+          body: {
+            id: 'call',
+            execute: async () => {
+              if (++calls === 2) throw new Error('Unavailable');
+              return {};
+            },
+          },
+          until: () => false,
+          maxIterations: 3,
+        })
+      );
+
+    const result = await engine.execute({ jobId: 'j1', polls: 0 });
+
+    expect(result.outputs.fetch).toBe('page-1');
+    expect(result.context.polls).toBe(2);
+    expect(result.metrics.nodes.flaky.iterations).toEqual([
+      expect.objectContaining({ iteration: 1, status: 'success' }),
+      expect.objectContaining({ iteration: 2, status: 'failed', error: 'Unavailable' }),
+    ]);
+  });
+
+  test('should repeat a sub-graph and nest its metrics per iteration', async () => {
+    type Child = { polls: number; status?: string };
+    const child = new DagEngine<Child>(deps).addNode({
+      id: 'poll',
+      execute: async (ctx) => ({ polls: ctx.polls + 1, status: ctx.polls >= 1 ? 'ready' : 'queued' }),
+    });
+    const runIds: string[] = [];
+    child.on('runStart', e => void runIds.push(e.runId));
+
+    const engine = new DagEngine<Ctx>(deps).addNode(
+      loopNode<Ctx>({
+        id: 'wait',
+        body: subDag<Ctx, Child>({
+          id: 'poll-once',
+          engine: child,
+          input: (ctx) => ({ polls: ctx.polls }),
+          output: (c) => ({ polls: c.polls, status: c.status }),
+        }),
+        until: (ctx) => ctx.status === 'ready',
+        maxIterations: 5,
+      })
+    );
+
+    const result = await engine.execute({ jobId: 'j1', polls: 0 }, { runId: 'r' });
+
+    expect(result.context.status).toBe('ready');
+    expect(runIds).toEqual(['r/wait[1]#1', 'r/wait[2]#1']);
+    expect(result.metrics.nodes.wait.iterations?.[1].child?.nodes.poll.status).toBe('success');
+  });
+
+  test('should reject an invalid iteration cap', () => {
+    expect(() =>
+      loopNode<Ctx>({ id: 'wait', body: poller([]), until: () => true, maxIterations: 0 })
+    ).toThrow('wait: maxIterations must be a positive integer, got 0');
+  });
+});
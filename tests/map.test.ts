@@ -0,0 +1,155 @@
+import { describe, expect, test, vi } from 'vitest';
+import { DagEngine, mapNode } from '../src';
+
+type Ctx = { files: string[]; sizes?: Record<string, number>; total: number };
+
+const deps = { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } };
+const sleep = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+describe('mapNode', () => {
+  test('should run once per selected item and reduce the results in item order', async () => {
+    const engine = new DagEngine<Ctx>(deps)
+      .addNode({ id: 'list', execute: async () => ({ files: ['a.txt', 'bb.txt', 'ccc.txt'] }) })
+      .addNode(
+        mapNode<Ctx, string, number>({
+          id: 'measure',
+          dependsOn: ['list'],
+          items: (ctx) => ctx.files,
+          execute: async (file, index) => {
+            await sleep(10 * (3 - index));
+            return file.length;
+          },
+          reduce: (sizes, ctx) => ({
+            sizes: Object.fromEntries(ctx.files.map((f, i) => [f, sizes[i]])),
+            total: sizes.reduce((a, b) => a + b, 0),
+          }),
+        })
+      );
+
+    const result = await engine.execute({ files: [], total: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.context.sizes).toEqual({ 'a.txt': 5, 'bb.txt': 6, 'ccc.txt': 7 });
+    expect(result.context.total).toBe(18);
+    expect(result.metrics.nodes.measure.items?.map(i => i.status)).toEqual([
+      'success',
+      'success',
+      'success',
+    ]);
+  });
+
+  test('should respect its own concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    const engine = new DagEngine<Ctx>(deps).addNode(
+      mapNode<Ctx, string, number>({
+        id: 'measure',
+        concurrency: 2,
+        items: (ctx) => ctx.files,
+        execute: async () => {
+          peak = Math.max(peak, ++active);
+          await sleep(10);
+          active--;
+          return 1;
+        },
+        reduce: (results) => ({ total: results.length }),
+      })
+    );
+
+    const result = await engine.execute({ files: ['a', 'b', 'c', 'd', 'e'], total: 0 });
+
+    expect(result.context.total).toBe(5);
+    expect(peak).toBe(2);
+  });
+
+  test('should abort remaining items and fail the node when an item fails', async () => {
+    const started: number[] = [];
+    const engine = new DagEngine<Ctx>(deps).addNode(
+      mapNode<Ctx, string, number>({
+        id: 'measure',
+        concurrency: 2,
+        items: (ctx) => ctx.files,
+        execute: async (file, index, _ctx, _deps, signal) => {
+          started.push(index);
+          if (file === 'bad') throw new Error('Unreadable file');
+          await new Promise((res, reject) => {
+            const id = setTimeout(res, 50);
+            signal.addEventListener('abort', () => {
+              clearTimeout(id);
+              reject(signal.reason);
+            });
+          });
+          return 1;
+        },
+        reduce: (results) => ({ total: results.length }),
+      })
+    );
+
+    const result = await engine.execute({ files: ['ok', 'bad', 'ok', 'ok'], total: 0 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Unreadable file');
+    expect(started).toEqual([0, 1]);
+    expect(result.metrics.nodes.measure.items).toEqual([
+      expect.objectContaining({ index: 0, status: 'cancelled' }),
+      expect.objectContaining({ index: 1, status: 'failed', error: 'Unreadable file' }),
+      { index: 2, status: 'cancelled', durationMs: 0 },
+      { index: 3, status: 'cancelled', durationMs: 0 },
+    ]);
+  });
+
+  test('should keep the item metrics when the node times out', async () => {
+    const engine = new DagEngine<Ctx>(deps).addNode(
+      mapNode<Ctx, string, number>({
+        id: 'measure',
+        config: { timeoutMs: 20, onError: 'skip' },
+        items: (ctx) => ctx.files,
+        execute: async () => {
+          await sleep(50);
+          return 1;
+        },
+        reduce: (results) => ({ total: results.length }),
+      })
+    );
+
+    const result = await engine.execute({ files: ['a', 'b'], total: 0 });
+
+    expect(result.metrics.nodes.measure.status).toBe('failed');
+    await vi.waitFor(() => {
+      expect(result.metrics.nodes.measure.items?.map(i => i.status)).toEqual([
+        'success',
+        'success',
+      ]);
+    });
+  });
+
+  test('should reduce an empty collection without running anything', async () => {
+    const execute = vi.fn();
+    const engine = new DagEngine<Ctx>(deps).addNode(
+      mapNode<Ctx, string, number>({
+        id: 'measure',
+        items: (ctx) => ctx.files,
+        execute,
+        reduce: (results) => ({ total: results.length }),
+      })
+    );
+
+    const result = await engine.execute({ files: [], total: -1 });
+
+    expect(result.context.total).toBe(0);
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.metrics.nodes.measure.items).toEqual([]);
+  });
+
+  test('should reject an invalid concurrency limit', () => {
+    expect(() =>
+      mapNode<Ctx, string, number>({
+        id: 'measure',
+        concurrency: 0,
+        items: (ctx) => ctx.files,
+        execute: async () => 1,
+        reduce: () => ({}),
+      })
+    ).toThrow('measure: concurrency must be a positive integer, got 0');
+  });
+});
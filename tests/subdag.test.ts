@@ -0,0 +1,132 @@
+import { describe, expect, test, vi } from 'vitest';
+import { DagCancelledError, DagEngine, subDag } from '../src';
+
+type Parent = { userId: string; profile?: string; score: number };
+type Child = { id: string; name?: string; score: number };
+
+const deps = { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } };
+
+function childEngine(fail = false) {
+  return new DagEngine<Child>(deps)
+    .addNode({ id: 'load', execute: async (ctx) => ({ name: `user-${ctx.id}` }) })
+    .addNode({
+      id: 'score',
+      dependsOn: ['load'],
+      execute: async (ctx) => {
+        if (fail) throw new Error('Scoring failed');
+        return { score: ctx.name!.length };
+      },
+    });
+}
+
+describe('subDag', () => {
+  test('should run a child engine as a node and map its context back', async () => {
+    const parent = new DagEngine<Parent>(deps).addNode(
+      subDag<Parent, Child>({
+        id: 'profile',
+        engine: childEngine(),
+        input: (ctx) => ({ id: ctx.userId, score: 0 }),
+        output: (child) => ({ profile: child.name, score: child.score }),
+      })
+    );
+
+    const result = await parent.execute({ userId: '42', score: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.context).toEqual({ userId: '42', profile: 'user-42', score: 7 });
+    expect(result.metrics.nodes.profile.child?.successfulNodes).toBe(2);
+    expect(result.metrics.nodes.profile.child?.nodes.score.status).toBe('success');
+  });
+
+  test('should fail the parent node with the child error and keep child metrics', async () => {
+    const parent = new DagEngine<Parent>(deps).addNode(
+      subDag<Parent, Child>({
+        id: 'profile',
+        engine: childEngine(true),
+        config: { onError: 'skip' },
+        input: (ctx) => ({ id: ctx.userId, score: 0 }),
+        output: (child) => ({ score: child.score }),
+      })
+    );
+
+    const result = await parent.execute({ userId: '42', score: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.metrics.nodes.profile.status).toBe('failed');
+    expect(result.metrics.nodes.profile.error).toBe('Scoring failed');
+    expect(result.metrics.nodes.profile.child?.nodes.score.status).toBe('failed');
+  });
+
+  test('should propagate parent timeouts into the child run', async () => {
+    let childSignal: AbortSignal | undefined;
+    const child = new DagEngine<Child>(deps).addNode({
+      id: 'slow',
+      execute: async (ctx, deps, signal) => {
+        childSignal = signal;
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return {};
+      },
+    });
+    const parent = new DagEngine<Parent>(deps).addNode(
+      subDag<Parent, Child>({
+        id: 'profile',
+        engine: child,
+        config: { timeoutMs: 20 },
+        input: (ctx) => ({ id: ctx.userId, score: 0 }),
+        output: () => ({}),
+      })
+    );
+
+    const result = await parent.execute({ userId: '42', score: 0 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('profile timed out');
+    expect(childSignal?.aborted).toBe(true);
+    expect(childSignal?.reason).toBeInstanceOf(DagCancelledError);
+  });
+
+  test('should nest the child metrics when the parent times out', async () => {
+    const child = new DagEngine<Child>(deps).addNode({
+      id: 'slow',
+      execute: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return {};
+      },
+    });
+    const parent = new DagEngine<Parent>(deps).addNode(
+      subDag<Parent, Child>({
+        id: 'profile',
+        engine: child,
+        config: { timeoutMs: 20, onError: 'skip' },
+        input: (ctx) => ({ id: ctx.userId, score: 0 }),
+        output: () => ({}),
+      })
+    );
+
+    const result = await parent.execute({ userId: '42', score: 0 });
+
+    expect(result.metrics.nodes.profile.status).toBe('failed');
+    await vi.waitFor(() => {
+      expect(result.metrics.nodes.profile.child?.nodes.slow.status).toBe('cancelled');
+    });
+  });
+
+  test('should derive the child run id from the parent run', async () => {
+    let childRunId: string | undefined;
+    const child = childEngine().on('runStart', (e) => {
+      childRunId = e.runId;
+    });
+    const parent = new DagEngine<Parent>(deps).addNode(
+      subDag<Parent, Child>({
+        id: 'profile',
+        engine: child,
+        input: (ctx) => ({ id: ctx.userId, score: 0 }),
+        output: () => ({}),
+      })
+    );
+
+    await parent.execute({ userId: '42', score: 0 }, { runId: 'run-1' });
+
+    expect(childRunId).toBe('run-1/profile#1');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test, vi } from 'vitest';
+import { DagEngine, toDot, toMermaid } from '../src';
+
+type Ctx = { value: number };
+
+const deps = { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } };
+
+function buildEngine() {
+  return new DagEngine<Ctx>(deps)
+    .addNode({ id: 'fetch-user', execute: async () => ({ value: 1 }) })
+    .addNode({
+      id: 'charge "card"',
+      dependsOn: ['fetch-user'],
+      config: { onError: 'skip-dependents', maxRetries: 1, retryDelayMs: 1 },
+      execute: async () => {
+        throw new Error('Declined');
+      },
+    })
+    .addNode({ id: 'ship', dependsOn: ['charge "card"'], execute: async () => ({}) });
+}
+
+describe('toMermaid', () => {
+  test('should export the graph as a flowchart', () => {
+    expect(toMermaid(buildEngine(), { direction: 'LR' })).toBe(
+      [
+        'flowchart LR',
+        '  n0["fetch-user"]',
+        '  n1["charge #quot;card#quot;"]',
+        '  n2["ship"]',
+        '  n0 --> n1',
+        '  n1 --> n2',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('should overlay run metrics', async () => {
+    const engine = buildEngine();
+    const result = await engine.execute({ value: 0 });
+    for (const m of Object.values(result.metrics.nodes)) m.durationMs = 5;
+
+    expect(toMermaid(engine, { metrics: result.metrics })).toBe(
+      [
+        'flowchart TD',
+        '  n0["fetch-user<br/>success · 5ms · 1 attempt"]',
+        '  n1["charge #quot;card#quot;<br/>failed · 5ms · 2 attempts"]',
+        '  n2["ship<br/>blocked · 5ms · 0 attempts"]',
+        '  n0 --> n1',
+        '  n1 --> n2',
+        '  class n0 success',
+        '  class n1 failed',
+        '  class n2 blocked',
+        '  classDef success fill:#d4edda,stroke:#28a745',
+        '  classDef failed fill:#f8d7da,stroke:#dc3545',
+        '  classDef blocked fill:#fff3cd,stroke:#ffc107',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('should use a valid class name for not-taken nodes', async () => {
+    const engine = new DagEngine<Ctx>(deps)
+      .addNode({ id: 'route', execute: async () => ({}), branch: () => 'a' })
+      .addNode({ id: 'a', dependsOn: ['route'], execute: async () => ({}) })
+      .addNode({ id: 'b', dependsOn: ['route'], execute: async () => ({}) });
+    const result = await engine.execute({ value: 0 });
+
+    const chart = toMermaid(engine, { metrics: result.metrics });
+
+    expect(chart).toContain('  class n2 not_taken\n');
+    expect(chart).toContain('  classDef not_taken fill:#f8f9fa,stroke:#adb5bd\n');
+  });
+});
+
+describe('toDot', () => {
+  test('should export the graph as a digraph', () => {
+    expect(toDot(buildEngine())).toBe(
+      [
+        'digraph dag {',
+        '  rankdir=TB;',
+        '  node [shape=box, style="rounded,filled", fillcolor="#ffffff"];',
+        '  "fetch-user" [label="fetch-user"];',
+        '  "charge \\"card\\"" [label="charge \\"card\\""];',
+        '  "ship" [label="ship"];',
+        '  "fetch-user" -> "charge \\"card\\"";',
+        '  "charge \\"card\\"" -> "ship";',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('should colour and label nodes from run metrics', async () => {
+    const engine = buildEngine();
+    const result = await engine.execute({ value: 0 });
+    result.metrics.nodes['fetch-user'].durationMs = 12;
+
+    expect(toDot(engine, { metrics: result.metrics })).toContain(
+      '  "fetch-user" [label="fetch-user\\nsuccess · 12ms · 1 attempt", fillcolor="#d4edda", color="#28a745"];'
+    );
+  });
+});